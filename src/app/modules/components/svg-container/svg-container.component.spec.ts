@@ -4,6 +4,11 @@
 import { TestBed, ComponentFixture, tick, fakeAsync, waitForAsync } from '@angular/core/testing';
 import { SimpleChange } from '@angular/core';
 
+/**
+ * Import third-party libraries.
+ */
+import { Matrix } from '@svgdotjs/svg.js';
+
 /**
  * Import custom components.
  */
@@ -609,8 +614,9 @@ describe('SVG Container Component', () => {
       // It should call mouseMoveEvent with event variables (_triggerCoordinateChange should be set to false)
       expect(app.mouseMoveEvent.emit).toHaveBeenCalledTimes(1);
       expect(app.mouseMoveEvent.emit).toHaveBeenCalledWith({
-        x: 0,
-        y: 0
+        ...app.getUserSpacePoint(0, 0),
+        clientX: 0,
+        clientY: 0
       });
     });
 
@@ -634,15 +640,274 @@ describe('SVG Container Component', () => {
       // It should call mouseMoveEvent with event variables (_triggerCoordinateChange should be set to false)
       expect(app.mouseMoveEvent.emit).toHaveBeenCalledTimes(1);
       expect(app.mouseMoveEvent.emit).toHaveBeenCalledWith({
-        x: 0,
-        y: 0
+        ...app.getUserSpacePoint(0, 0),
+        clientX: 0,
+        clientY: 0
+      });
+    });
+  });
+
+  describe('Pan and zoom tests', () => {
+    beforeEach(() => {
+      app.containerId = 'test-id';
+      app.height = 200;
+      app.viewBox = [0, 0, 400, 200];
+      app.panZoom = true;
+      fixture.detectChanges();
+      spyOn(app.viewBoxChange, 'emit');
+    });
+
+    it('Should zoom around the center of the viewbox and emit viewBoxChange on zoomTo', () => {
+      const zoom = app.getZoom();
+
+      app.zoomTo(zoom * 2);
+
+      expect(app.viewBox).toEqual([100, 50, 200, 100]);
+      expect(app.getContainer().attr().viewBox).toEqual('100 50 200 100');
+      expect(app.viewBoxChange.emit).toHaveBeenCalledWith([100, 50, 200, 100]);
+    });
+
+    it('Should keep the provided point in place on zoomTo', () => {
+      const zoom = app.getZoom();
+
+      app.zoomTo(zoom * 2, { x: 0, y: 0 });
+
+      expect(app.viewBox).toEqual([0, 0, 200, 100]);
+    });
+
+    it('Should limit zoom level by minZoom and maxZoom', () => {
+      app.minZoom = 0.5;
+      app.maxZoom = 2;
+
+      app.zoomTo(100);
+      expect(app.getZoom()).toBeCloseTo(2);
+
+      app.zoomTo(0.01);
+      expect(app.getZoom()).toBeCloseTo(0.5);
+    });
+
+    it('Should move the viewbox and emit viewBoxChange on panBy', () => {
+      app.panBy(10, -20);
+
+      expect(app.viewBox).toEqual([10, -20, 400, 200]);
+      expect(app.viewBoxChange.emit).toHaveBeenCalledWith([10, -20, 400, 200]);
+    });
+
+    it('Should fit the viewbox to the content of the container on fitToContent', () => {
+      app.getContainer().rect(50, 20).move(30, 40);
+
+      app.fitToContent(5);
+
+      const [x, y, width, height] = app.viewBox;
+      expect(x).toBeCloseTo(25);
+      expect(y).toBeCloseTo(35);
+      expect(width).toBeCloseTo(60);
+      expect(height).toBeCloseTo(30);
+    });
+
+    it('Should zoom in on mouse wheel scroll', () => {
+      const zoom = app.getZoom();
+      const container = html.querySelector('#test-id');
+
+      container.dispatchEvent(new WheelEvent('wheel', { deltaY: -100, cancelable: true }));
+
+      expect(app.getZoom()).toBeGreaterThan(zoom);
+      expect(app.viewBoxChange.emit).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should not zoom on mouse wheel scroll if panZoom is disabled', () => {
+      app.panZoom = false;
+      const container = html.querySelector('#test-id');
+
+      container.dispatchEvent(new WheelEvent('wheel', { deltaY: -100, cancelable: true }));
+
+      expect(app.viewBoxChange.emit).toHaveBeenCalledTimes(0);
+    });
+
+    it('Should pan the viewbox while dragging the pointer', () => {
+      const zoom = app.getZoom();
+      const container = html.querySelector('#test-id');
+
+      container.dispatchEvent(new PointerEvent('pointerdown', { pointerId: 1, clientX: 100, clientY: 100 }));
+      container.dispatchEvent(new PointerEvent('pointermove', { pointerId: 1, clientX: 80, clientY: 90 }));
+      container.dispatchEvent(new PointerEvent('pointerup', { pointerId: 1, clientX: 80, clientY: 90 }));
+      container.dispatchEvent(new PointerEvent('pointermove', { pointerId: 1, clientX: 0, clientY: 0 }));
+
+      expect(app.viewBox[0]).toBeCloseTo(20 / zoom);
+      expect(app.viewBox[1]).toBeCloseTo(10 / zoom);
+      expect(app.viewBoxChange.emit).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Export tests', () => {
+    beforeEach(() => {
+      app.containerId = 'test-id';
+      app.showGrid = true;
+      fixture.detectChanges();
+      app.getContainer().rect(10, 10).addClass('exported-rect');
+    });
+
+    it('Should return standalone svg markup with grid on toSvgString', () => {
+      const markup = app.toSvgString();
+
+      expect(markup).toContain('<svg');
+      expect(markup).toContain('xmlns="http://www.w3.org/2000/svg"');
+      expect(markup).toContain('<pattern');
+      expect(markup).toContain('class="exported-rect"');
+    });
+
+    it('Should exclude grid and pattern if excludeGrid is set', () => {
+      const markup = app.toSvgString({ excludeGrid: true });
+
+      expect(markup).not.toContain('<pattern');
+      expect(markup.match(/<rect/g).length).toEqual(1);
+    });
+
+    it('Should inline computed styles for elements with classes', () => {
+      expect(app.toSvgString()).toContain('style="fill: ');
+      expect(app.toSvgString({ inlineStyles: false })).not.toContain('style=');
+    });
+
+    it('Should return svg data url on toDataUrl', () => {
+      expect(app.toDataUrl()).toMatch(/^data:image\/svg\+xml;charset=utf-8,%3Csvg/);
+    });
+
+    it('Should resolve with an image blob on toBlob', async () => {
+      const blob = await app.toBlob({ type: 'image/jpeg', scale: 2 });
+
+      expect(blob.type).toEqual('image/jpeg');
+      expect(blob.size).toBeGreaterThan(0);
+    });
+  });
+
+  describe('importSvg fn tests', () => {
+    const markup = `
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+        <defs><clipPath id="clip"><rect width="5" height="5" /></clipPath></defs>
+        <rect id="room" x="10" y="20" width="30" height="40" rx="2" fill="red" class="wall" />
+        <g transform="translate(10, 10)">
+          <circle cx="10" cy="10" r="5" fill="#0000ff" />
+        </g>
+        <line x1="0" y1="1" x2="50" y2="60" stroke="green" stroke-width="3" />
+        <polygon points="0,0 10,0 10,10" fill="yellow" />
+      </svg>
+    `;
+
+    beforeEach(() => {
+      app.containerId = 'test-id';
+      fixture.detectChanges();
+    });
+
+    it('Should create an element for each supported shape and return typed models', () => {
+      const shapes = app.importSvg(markup);
+
+      expect(shapes.map(({ model }) => model.type)).toEqual(['rect', 'circle', 'line', 'polygon']);
+      expect(shapes[0].model).toEqual({
+        type: 'rect', id: 'room', classes: ['wall'], color: 'rgb(255, 0, 0)',
+        x: 10, y: 20, width: 30, height: 40, rx: 2, ry: 0
       });
+      expect(shapes[2].model).toEqual(jasmine.objectContaining({ x0: 0, y0: 1, x1: 50, y1: 60, borderSize: 3 }));
+      expect(shapes[3].model).toEqual(jasmine.objectContaining({ points: [[0, 0], [10, 0], [10, 10]] }));
+      expect(shapes[0].element.parent()).toBe(app.getContainer());
+    });
+
+    it('Should generate stable ids for elements without an id', () => {
+      const shapes = app.importSvg(markup, 'plan-');
+
+      expect(shapes.map(({ model }) => model.id)).toEqual(['room', 'plan-1', 'plan-2', 'plan-3']);
+      expect(html.querySelector('#plan-1').nodeName).toEqual('circle');
+    });
+
+    it('Should not reuse generated ids of the previous import', () => {
+      const first = app.importSvg(markup, 'plan-');
+      const second = app.importSvg(markup, 'plan-');
+
+      expect(second.map(({ model }) => model.id)).toEqual(['room-2', 'plan-1-2', 'plan-2-2', 'plan-3-2']);
+      expect(html.querySelectorAll('#plan-1').length).toEqual(1);
+      expect(first[1].element.id()).toEqual('plan-1');
+    });
+
+    it('Should rename used ids of the next import and keep its references resolved', () => {
+      const referencing = `
+        <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+          <defs>
+            <linearGradient id="base"><stop offset="0" stop-color="red" /></linearGradient>
+            <linearGradient id="fade" xlink:href="#base" />
+            <clipPath id="clip"><rect width="5" height="5" /></clipPath>
+          </defs>
+          <rect id="room" width="10" height="10" fill="url(#fade)" clip-path="url('#clip')" />
+        </svg>
+      `;
+      const [first] = app.importSvg(referencing);
+      const [second] = app.importSvg(referencing);
+
+      const ids = Array.from(html.querySelectorAll('[id]')).map((element) => element.id);
+      expect(new Set(ids).size).toEqual(ids.length);
+      expect(first.element.attr('fill')).toEqual('url(#fade)');
+      expect(second.model.id).toEqual('room-2');
+      expect(second.element.attr('fill')).toEqual('url(#fade-2)');
+      expect(second.element.attr('clip-path')).toEqual('url(#clip-2)');
+      expect(html.querySelector('#fade-2').getAttribute('xlink:href')).toEqual('#base-2');
+      expect(html.querySelector('defs > #clip-2 > rect')).not.toBeNull();
+    });
+
+    it('Should move definitions outside of defs to the defs of the container', () => {
+      const shapes = app.importSvg(`
+        <svg xmlns="http://www.w3.org/2000/svg">
+          <clipPath id="top-clip"><rect width="5" height="5" /></clipPath>
+          <linearGradient id="top-gradient"><stop offset="0" stop-color="red" /></linearGradient>
+          <rect width="10" height="10" fill="url(#top-gradient)" clip-path="url(#top-clip)" />
+        </svg>
+      `);
+
+      expect(shapes.length).toEqual(1);
+      expect(html.querySelector('defs > #top-clip > rect')).not.toBeNull();
+      expect(html.querySelector('defs > #top-gradient > stop')).not.toBeNull();
+      expect(shapes[0].element.attr('clip-path')).toEqual('url(#top-clip)');
+    });
+
+    it('Should keep transforms of parent groups on the created elements', () => {
+      const [, circle] = app.importSvg(markup);
+      const box = circle.element.rbox(app.getContainer());
+
+      expect(box.x).toBeCloseTo(15);
+      expect(box.y).toBeCloseTo(15);
+      expect(circle.model).toEqual(jasmine.objectContaining({
+        x: 5, y: 5, diameter: 10, rotate: 0, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0, translateX: 10, translateY: 10, origin: [0, 0]
+      }));
+    });
+
+    it('Should decompose transforms of parent groups and the element into the model', () => {
+      const [rect] = app.importSvg(`
+        <svg xmlns="http://www.w3.org/2000/svg">
+          <g transform="translate(50, 0)"><g transform="rotate(90)">
+            <rect width="20" height="10" transform="scale(2, 1)" />
+          </g></g>
+        </svg>
+      `);
+
+      expect(rect.model.rotate).toBeCloseTo(90);
+      expect(rect.model.scaleX).toBeCloseTo(2);
+      expect(rect.model.scaleY).toBeCloseTo(1);
+      expect(rect.model.skewX).toBeCloseTo(0);
+      expect(rect.model.translateX).toBeCloseTo(50);
+      expect(rect.model.translateY).toBeCloseTo(0);
+      expect(rect.model.origin).toEqual([0, 0]);
+
+      // Model transformed around its origin matches the rendered element
+      const { rotate, scaleX, scaleY, translateX, translateY } = rect.model;
+      const matrix = new Matrix().transform({ rotate, scale: [scaleX, scaleY], translate: [translateX, translateY], origin: [0, 0] });
+      expect(matrix.equals(rect.element.matrix())).toBeTrue();
+    });
+
+    it('Should throw an error if markup is not valid', () => {
+      expect(() => app.importSvg('<svg><rect></svg>')).toThrowError();
     });
   });
 
   it('Should emit doubleClickEvent and set _singleClickHappened to false on onPointDoubleClick', fakeAsync(() => {
-    app.pointXCoordinate = 10;
-    app.pointYCoordinate = 10;
+    app.pointClientX = 15;
+    app.pointClientY = 15;
     app.containerId = 'test-id';
     fixture.detectChanges();
     spyOn(app.doubleClickEvent, 'emit');
@@ -654,15 +919,16 @@ describe('SVG Container Component', () => {
 
     expect(app.doubleClickEvent.emit).toHaveBeenCalledTimes(1);
     expect(app.doubleClickEvent.emit).toHaveBeenCalledWith({
-      x: 15,
-      y: 15
+      ...app.getUserSpacePoint(15, 15),
+      clientX: 15,
+      clientY: 15
     });
     expect(app.clickEvent.emit).toHaveBeenCalledTimes(0);
   }));
 
   it('Should emit clickEvent and set _singleClickHappened to true on onPointClick', fakeAsync(() => {
-    app.pointXCoordinate = 10;
-    app.pointYCoordinate = 10;
+    app.pointClientX = 15;
+    app.pointClientY = 15;
     app.containerId = 'test-id';
     fixture.detectChanges();
     spyOn(app.clickEvent, 'emit');
@@ -672,8 +938,27 @@ describe('SVG Container Component', () => {
 
     expect(app.clickEvent.emit).toHaveBeenCalledTimes(1);
     expect(app.clickEvent.emit).toHaveBeenCalledWith({
-      x: 15,
-      y: 15
+      ...app.getUserSpacePoint(15, 15),
+      clientX: 15,
+      clientY: 15
     });
   }));
+
+  it('Should emit coordinates in the user space of the viewbox', () => {
+    app.containerId = 'test-id';
+    app.viewBox = [100, 100, 50, 50];
+    fixture.detectChanges();
+    spyOn(app.mouseMoveEvent, 'emit');
+
+    // Let's move the mouse to the top left corner of the rect
+    const rect = app.getContainer().rect(10, 10).move(110, 120);
+    const { left, top } = rect.node.getBoundingClientRect();
+    app.adjustMouseMovePosition(new MouseEvent('mousemove', { clientX: left, clientY: top }));
+
+    const { x, y, clientX, clientY } = (app.mouseMoveEvent.emit as jasmine.Spy).calls.mostRecent().args[0];
+    expect(x).toBeCloseTo(110, 0);
+    expect(y).toBeCloseTo(120, 0);
+    expect(clientX).toEqual(left);
+    expect(clientY).toEqual(top);
+  });
 });
@@ -15,12 +15,58 @@ import {
 /**
  * Import third-party libraries.
  */
-import { SVG, Container, Pattern, Rect } from '@svgdotjs/svg.js';
+import { SVG, Box, Container, Defs, Pattern, Rect } from '@svgdotjs/svg.js';
+
+/**
+ * Import utilities.
+ */
+import { cloneSvgElement, rasterizeSvg, svgToDataUrl } from '../../util/export-svg.util';
+import { importSvgShapes } from '../../util/import-svg.util';
+import { drawPatternPreset } from '../../util/pattern-preset.util';
+
+/**
+ * Import custom models.
+ */
+import { SvgEditableShape, SvgImportedShape } from '../../models';
+
+/**
+ * Import custom services.
+ */
+import { SvgSelectionService } from '../../services/svg-selection.service';
+
+/**
+ * Position of the pointer within the container.
+ */
+export interface SvgPointerPosition {
+  x: number; // Position on x-axis in the user space of the container.
+  y: number; // Position on y-axis in the user space of the container.
+  clientX: number; // Position on x-axis relative to the viewport.
+  clientY: number; // Position on y-axis relative to the viewport.
+}
+
+/**
+ * Options used when exporting contents of the container.
+ */
+export interface SvgExportOptions {
+  excludeGrid?: boolean; // Indicator if background grid should be left out of the export. Defaults to false.
+  inlineStyles?: boolean; // Indicator if computed styles of CSS classes should be inlined. Defaults to true.
+}
+
+/**
+ * Options used when exporting contents of the container as an image.
+ */
+export interface SvgImageExportOptions extends SvgExportOptions {
+  type?: 'image/png' | 'image/jpeg'; // Mime type of the image. Defaults to image/png.
+  scale?: number; // Scale of the image compared to the rendered container. Defaults to 1.
+  quality?: number; // Quality of the image between 0 and 1, used only for image/jpeg.
+  background?: string; // Background color of the image. Defaults to white for image/jpeg and transparent for image/png.
+}
 
 @Component({
   selector: 'svg-container',
   templateUrl: 'svg-container.component.html',
-  styleUrls: ['./svg-container.component.css']
+  styleUrls: ['./svg-container.component.css'],
+  providers: [SvgSelectionService]
 })
 export class SvgContainerComponent implements AfterViewInit, OnChanges {
   /**
@@ -28,12 +74,17 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
    */
   public pointXCoordinate: number;
   public pointYCoordinate: number;
+  public pointClientX = 0;
+  public pointClientY = 0;
   public mouseInContainer = false;
   private _svg: Container | null = null;
   private _grid: Rect | null = null;
   private _pattern: Pattern | null = null;
   private _triggerCoordinateChange = false;
   private _singleClickHappened = false;
+  private _pointers: Map<number, { x: number, y: number }> = new Map(); // Active pointers used for panning and pinch zooming.
+  private _marquee: Rect | null = null; // Rectangle drawn while selecting shapes by dragging on empty canvas.
+  private _marqueeStart: { x: number, y: number } | null = null; // Starting point of the marquee in user space.
 
   /**
    * Input variables used within the component.
@@ -53,29 +104,42 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
   @Input() public hoverable = false; // Indicator if user should be able to see dot on hover, to capture coordinates.
   @Input() public pointSize = 10; // Numeric value in pixels, to indicate how large should the point be.
   @Input() public viewBox: number[] = []; // Viewbox of the container, must be an array consisting of 4 integers [x, y, width, height].
+  @Input() public panZoom = false; // Indicator if user should be able to zoom with mouse wheel or pinch and pan by dragging.
+  @Input() public minZoom = 0.1; // Minimum zoom level, which can be reached while zooming.
+  @Input() public maxZoom = 10; // Maximum zoom level, which can be reached while zooming.
+  @Input() public selectable = false; // Indicator if user should be able to select shapes with pointer and keyboard.
+  @Input() public nudgeStep = 1; // Distance in user space units, which selected shapes are moved with arrow keys.
 
   /**
    * Output variables used within the component.
    */
-  @Output() public clickEvent: EventEmitter<{ x: number, y: number }>
+  @Output() public clickEvent: EventEmitter<SvgPointerPosition>
     = new EventEmitter(); // Event handler for retrieving coordinates at clicked position
-  @Output() public doubleClickEvent: EventEmitter<{ x: number, y: number }>
+  @Output() public doubleClickEvent: EventEmitter<SvgPointerPosition>
     = new EventEmitter(); // Event handler for retrieving coordinates at position where you double-click.
   @Output() public mouseOverEvent: EventEmitter<MouseEvent> = new EventEmitter(); // Event handler when mouse is moved over the container.
   @Output() public mouseOutEvent: EventEmitter<MouseEvent> = new EventEmitter(); // Event handler when the mouse exits the container.
-  @Output() public mouseMoveEvent: EventEmitter<{ x: number, y: number }> = new EventEmitter();
+  @Output() public mouseMoveEvent: EventEmitter<SvgPointerPosition> = new EventEmitter();
   // Event handler when the mouse is being moved on the container.
   @Output() public onInitialize: EventEmitter<Container> = new EventEmitter();
+  @Output() public viewBoxChange: EventEmitter<number[]> = new EventEmitter(); // Event handler when viewbox is changed by pan or zoom.
+  @Output() public selectionChange: EventEmitter<SvgEditableShape[]> = new EventEmitter(); // Event handler when selection changes.
+  @Output() public selectionDelete: EventEmitter<SvgEditableShape[]> = new EventEmitter(); // Event handler when delete is pressed.
 
   /**
    * Create SVG Container component instance.
    * @param cdRef - Change Detector Ref object instance.
+   * @param selection - Selection service object instance, scoped to the container.
    */
   constructor(
-    private cdRef: ChangeDetectorRef
+    private cdRef: ChangeDetectorRef,
+    public selection: SvgSelectionService
   ) {
     this.pointXCoordinate = 0;
     this.pointYCoordinate = 0;
+
+    // Let's notify about selection changes
+    this.selection.changes.subscribe((shapes: SvgEditableShape[]) => this.selectionChange.emit(shapes));
   }
 
   /**
@@ -157,6 +221,8 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
     if (this._triggerCoordinateChange) {
       this.pointXCoordinate = event.offsetX - this.pointSize / 2;
       this.pointYCoordinate = event.offsetY - this.pointSize / 2;
+      this.pointClientX = event.clientX;
+      this.pointClientY = event.clientY;
     }
 
     // Trigger coordinate change
@@ -169,15 +235,9 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
    */
   adjustMouseMovePosition(event: MouseEvent): void {
     if (this.hoverable && this._triggerCoordinateChange) {
-      this.mouseMoveEvent.emit({
-        x: this.pointXCoordinate + this.pointSize / 2,
-        y: this.pointYCoordinate + this.pointSize / 2
-      });
+      this.mouseMoveEvent.emit(this.getPointerPosition(this.pointClientX, this.pointClientY));
     } else if (!this.hoverable) {
-      this.mouseMoveEvent.emit({
-        x: event.offsetX,
-        y: event.offsetY
-      });
+      this.mouseMoveEvent.emit(this.getPointerPosition(event.clientX, event.clientY));
     }
   }
 
@@ -189,13 +249,12 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
     this._singleClickHappened = true;
 
     // Assign coordinates
-    const x = this.pointXCoordinate + this.pointSize / 2;
-    const y = this.pointYCoordinate + this.pointSize / 2;
+    const position = this.getPointerPosition(this.pointClientX, this.pointClientY);
 
     // Set timeout, to make sure we cancel it if double-click happens.
     setTimeout(() => {
       if (this._singleClickHappened) {
-        this.clickEvent.emit({ x, y });
+        this.clickEvent.emit(position);
       }
     }, 250);
   }
@@ -205,10 +264,7 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
    */
   onPointDoubleClick(): void {
     // Let's fire double click event
-    this.doubleClickEvent.emit({
-      x: this.pointXCoordinate + this.pointSize / 2,
-      y: this.pointYCoordinate + this.pointSize / 2
-    });
+    this.doubleClickEvent.emit(this.getPointerPosition(this.pointClientX, this.pointClientY));
 
     // Let's set that double click has happened
     this._singleClickHappened = false;
@@ -221,6 +277,405 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
     this._triggerCoordinateChange = false;
   }
 
+  /**
+   * Retrieves current zoom level, which is the amount of screen pixels per one viewbox unit.
+   * @returns Current zoom level, or 1 if viewbox is not set.
+   */
+  getZoom(): number {
+    const { width, height } = this.getClientSize();
+    if (!this._svg || this.viewBox.length !== 4 || !width || !height) {
+      return 1;
+    }
+
+    return Math.min(width / this.viewBox[2], height / this.viewBox[3]);
+  }
+
+  /**
+   * Zooms the container to the specified zoom level, keeping the given point at the same position on the screen.
+   * @param level - Zoom level, which will be limited by minZoom and maxZoom.
+   * @param point - Point in the user space, around which zoom happens. Defaults to the center of the viewbox.
+   */
+  zoomTo(level: number, point?: { x: number, y: number }): void {
+    if (!this._svg) {
+      return;
+    }
+    const [x, y, width, height] = this.getCurrentViewBox();
+    const zoom = this.getZoom();
+    const newZoom = Math.min(Math.max(level, this.minZoom), this.maxZoom);
+
+    // Let's zoom around the center of the viewbox if point is not provided
+    const origin = point || { x: x + width / 2, y: y + height / 2 };
+    const scale = zoom / newZoom;
+
+    this.setViewBox([
+      origin.x - (origin.x - x) * scale,
+      origin.y - (origin.y - y) * scale,
+      width * scale,
+      height * scale
+    ]);
+  }
+
+  /**
+   * Moves the viewbox of the container by the specified amount.
+   * @param dx - Amount of user space units to move on x-axis.
+   * @param dy - Amount of user space units to move on y-axis.
+   */
+  panBy(dx: number, dy: number): void {
+    if (!this._svg) {
+      return;
+    }
+    const [x, y, width, height] = this.getCurrentViewBox();
+
+    this.setViewBox([x + dx, y + dy, width, height]);
+  }
+
+  /**
+   * Adjusts the viewbox, so that all the elements within the container are visible.
+   * @param padding - Amount of user space units to leave around the content.
+   */
+  fitToContent(padding = 0): void {
+    if (!this._svg) {
+      return;
+    }
+    let content: Box | null = null;
+
+    // Let's merge boxes of all the elements, except grid, definitions and interactive overlays
+    for (const child of this._svg.children()) {
+      if (child === this._grid || child instanceof Defs || child.hasClass('svg-overlay')) {
+        continue;
+      }
+      const box = child.rbox(this._svg);
+      content = content ? content.merge(box) : box;
+    }
+
+    if (!content || !content.width || !content.height) {
+      return;
+    }
+
+    this.setViewBox([
+      content.x - padding,
+      content.y - padding,
+      content.width + padding * 2,
+      content.height + padding * 2
+    ]);
+
+    // Let's make sure we still respect the zoom limits
+    const zoom = this.getZoom();
+    if (zoom < this.minZoom || zoom > this.maxZoom) {
+      this.zoomTo(zoom);
+    }
+  }
+
+  /**
+   * Converts a point on the screen to the user space of the svg container.
+   * @param clientX - Position on x-axis relative to the viewport.
+   * @param clientY - Position on y-axis relative to the viewport.
+   * @returns Point in the user space of the container.
+   */
+  getUserSpacePoint(clientX: number, clientY: number): { x: number, y: number } {
+    const matrix = (this._svg?.node as SVGGraphicsElement | undefined)?.getScreenCTM();
+    if (!matrix) {
+      return { x: clientX, y: clientY };
+    }
+    const { x, y } = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+
+    return { x, y };
+  }
+
+  /**
+   * Exports contents of the container as standalone SVG markup.
+   * @param options - Export options.
+   * @returns SVG markup, or empty string if container is not created yet.
+   */
+  toSvgString(options: SvgExportOptions = {}): string {
+    if (!this._svg) {
+      return '';
+    }
+    const { excludeGrid = false, inlineStyles = true } = options;
+
+    // Let's exclude grid and its pattern if requested
+    const excluded: Element[] = [];
+    if (excludeGrid && this._grid && this._pattern) {
+      excluded.push(this._grid.node, this._pattern.node);
+    }
+
+    // Interactive overlays, e.g. transformer handles, are never exported
+    excluded.push(...Array.from(this._svg.node.querySelectorAll('.svg-overlay')));
+
+    const svg = cloneSvgElement(this._svg.node as SVGSVGElement, excluded, inlineStyles);
+
+    return new XMLSerializer().serializeToString(svg);
+  }
+
+  /**
+   * Exports contents of the container as SVG data URL.
+   * @param options - Export options.
+   * @returns SVG data URL.
+   */
+  toDataUrl(options: SvgExportOptions = {}): string {
+    return svgToDataUrl(this.toSvgString(options));
+  }
+
+  /**
+   * Exports contents of the container as a raster image.
+   * @param options - Image export options.
+   * @returns Promise which resolves with an image blob.
+   */
+  toBlob(options: SvgImageExportOptions = {}): Promise<Blob> {
+    if (!this._svg) {
+      return Promise.reject(new Error('SVG container is not created yet.'));
+    }
+    const { type = 'image/png', scale = 1, quality } = options;
+    const background = options.background || (type === 'image/jpeg' ? '#fff' : undefined);
+    const { width, height } = this.getClientSize();
+
+    return rasterizeSvg(this.toSvgString(options), width, height, type, scale, quality, background);
+  }
+
+  /**
+   * Imports SVG markup into the container, creating an element for each supported shape.
+   * @param markup - SVG markup which needs to be imported.
+   * @param idPrefix - Prefix used for generated ids of elements, which do not have an id.
+   * @returns List of created elements with their models, or empty list if container is not created yet.
+   */
+  importSvg(markup: string, idPrefix?: string): SvgImportedShape[] {
+    if (!this._svg) {
+      return [];
+    }
+
+    return importSvgShapes(this._svg, markup, idPrefix);
+  }
+
+  /**
+   * Zooms the container when mouse wheel is used.
+   * @param event - Wheel event handler from the DOM.
+   */
+  onWheel(event: WheelEvent): void {
+    if (!this.panZoom) {
+      return;
+    }
+    event.preventDefault();
+
+    // Let's zoom around the mouse position
+    const point = this.getUserSpacePoint(event.clientX, event.clientY);
+    this.zoomTo(this.getZoom() * Math.pow(1.002, -event.deltaY), point);
+  }
+
+  /**
+   * Starts selection marquee, panning or pinch zooming, when pointer is pressed within the container.
+   * @param event - Pointer event handler from the DOM.
+   */
+  onPointerDown(event: PointerEvent): void {
+    // Mouse and pen draw selection marquee on empty canvas, while touch keeps panning
+    if (this.selectable && event.pointerType !== 'touch' && event.button === 0 && this.isEmptyCanvas(event.target)) {
+      this.startMarquee(event);
+      return;
+    }
+
+    if (!this.panZoom || (event.pointerType === 'mouse' && event.button !== 0)) {
+      return;
+    }
+
+    this._pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  }
+
+  /**
+   * Pans the container with a single pointer, or zooms the container with two pointers.
+   * @param event - Pointer event handler from the DOM.
+   */
+  onPointerMove(event: PointerEvent): void {
+    if (this._marqueeStart) {
+      this.moveMarquee(event);
+      return;
+    }
+    const previous = this._pointers.get(event.pointerId);
+    if (!this.panZoom || !previous) {
+      return;
+    }
+    const zoom = this.getZoom();
+
+    if (this._pointers.size === 1) {
+      // Let's pan by the distance pointer has moved
+      this._pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      this.panBy((previous.x - event.clientX) / zoom, (previous.y - event.clientY) / zoom);
+    } else if (this._pointers.size === 2) {
+      // Let's calculate pinch distance and center before and after the move
+      const [first, second] = Array.from(this._pointers.values());
+      this._pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      const [newFirst, newSecond] = Array.from(this._pointers.values());
+      const distance = Math.hypot(first.x - second.x, first.y - second.y);
+      const newDistance = Math.hypot(newFirst.x - newSecond.x, newFirst.y - newSecond.y);
+      const centerX = (newFirst.x + newSecond.x) / 2;
+      const centerY = (newFirst.y + newSecond.y) / 2;
+
+      // Let's pan by the distance the pinch center has moved and zoom around it
+      this.panBy(((first.x + second.x) / 2 - centerX) / zoom, ((first.y + second.y) / 2 - centerY) / zoom);
+      if (distance) {
+        this.zoomTo(zoom * newDistance / distance, this.getUserSpacePoint(centerX, centerY));
+      }
+    }
+  }
+
+  /**
+   * Stops selection marquee, panning or pinch zooming, when pointer is released or leaves the container.
+   * @param event - Pointer event handler from the DOM.
+   */
+  onPointerUp(event: PointerEvent): void {
+    if (this._marqueeStart) {
+      this.endMarquee(event);
+    }
+    this._pointers.delete(event.pointerId);
+  }
+
+  /**
+   * Nudges, deletes or deselects selected shapes with the keyboard.
+   * @param event - Keyboard event handler from the DOM.
+   */
+  onKeyDown(event: KeyboardEvent): void {
+    const selected = this.selection.getSelected();
+    if (!this.selectable || !selected.length) {
+      return;
+    }
+    const directions: { [key: string]: [number, number] } = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1]
+    };
+    const direction = directions[event.key];
+
+    if (direction) {
+      // Let's move ten times further while shift is held
+      const step = event.shiftKey ? this.nudgeStep * 10 : this.nudgeStep;
+      event.preventDefault();
+      this.selection.nudge(direction[0] * step, direction[1] * step);
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      this.selectionDelete.emit(selected);
+    } else if (event.key === 'Escape') {
+      this.selection.clear();
+    }
+  }
+
+  /**
+   * Retrieves pointer position both in the user space and relative to the viewport.
+   * @param clientX - Position on x-axis relative to the viewport.
+   * @param clientY - Position on y-axis relative to the viewport.
+   * @returns Pointer position object.
+   */
+  private getPointerPosition(clientX: number, clientY: number): SvgPointerPosition {
+    const { x, y } = this.getUserSpacePoint(clientX, clientY);
+
+    return { x, y, clientX, clientY };
+  }
+
+  /**
+   * Checks if pointer is pressed on empty canvas, rather than on one of the shapes.
+   * @param target - Target of the pointer event.
+   * @returns Boolean indicator if target is the svg itself or the grid.
+   */
+  private isEmptyCanvas(target: EventTarget | null): boolean {
+    return !!this._svg && (target === this._svg.node || (!!this._grid && target === this._grid.node));
+  }
+
+  /**
+   * Starts drawing the selection marquee.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private startMarquee(event: PointerEvent): void {
+    if (!this._svg) {
+      return;
+    }
+    this._marqueeStart = this.getUserSpacePoint(event.clientX, event.clientY);
+    this._marquee = this._svg
+      .rect(0, 0)
+      .move(this._marqueeStart.x, this._marqueeStart.y)
+      .addClass('svg-overlay')
+      .addClass('svg-marquee')
+      .fill({ color: '#1e90ff', opacity: 0.1 })
+      .stroke({ color: '#1e90ff', width: 1 / this.getZoom() })
+      .attr('pointer-events', 'none');
+  }
+
+  /**
+   * Resizes the selection marquee to the pointer position.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private moveMarquee(event: PointerEvent): void {
+    const box = this.getMarqueeBox(event);
+    this._marquee?.size(box.width, box.height).move(box.x, box.y);
+  }
+
+  /**
+   * Selects shapes within the marquee, or clears the selection if the pointer has not moved.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private endMarquee(event: PointerEvent): void {
+    const box = this.getMarqueeBox(event);
+    this._marquee?.remove();
+    this._marquee = null;
+    this._marqueeStart = null;
+
+    if (box.width || box.height) {
+      this.selection.selectInBox(box, event.shiftKey);
+    } else if (!event.shiftKey) {
+      this.selection.clear();
+    }
+  }
+
+  /**
+   * Retrieves box between the starting point of the marquee and the pointer.
+   * @param event - Pointer event handler from the DOM.
+   * @returns Box in the user space of the container.
+   */
+  private getMarqueeBox(event: PointerEvent): { x: number, y: number, width: number, height: number } {
+    const start = this._marqueeStart || { x: 0, y: 0 };
+    const { x, y } = this.getUserSpacePoint(event.clientX, event.clientY);
+
+    return {
+      x: Math.min(start.x, x),
+      y: Math.min(start.y, y),
+      width: Math.abs(x - start.x),
+      height: Math.abs(y - start.y)
+    };
+  }
+
+  /**
+   * Retrieves current viewbox, or a viewbox matching the container size, if viewbox is not set.
+   * @returns Viewbox in format [x, y, width, height].
+   */
+  private getCurrentViewBox(): number[] {
+    if (this.viewBox.length === 4) {
+      return this.viewBox;
+    }
+    const { width, height } = this.getClientSize();
+
+    return [0, 0, width, height];
+  }
+
+  /**
+   * Retrieves rendered size of the svg container in pixels.
+   * @returns Object containing width and height of the container.
+   */
+  private getClientSize(): { width: number, height: number } {
+    if (!this._svg) {
+      return { width: 0, height: 0 };
+    }
+    const { width, height } = this._svg.node.getBoundingClientRect();
+
+    return { width, height };
+  }
+
+  /**
+   * Updates viewbox of the svg container and notifies about the change.
+   * @param viewBox - New viewbox in format [x, y, width, height].
+   */
+  private setViewBox(viewBox: number[]): void {
+    this.viewBox = viewBox;
+    this.updateViewbox();
+    this.viewBoxChange.emit(viewBox);
+  }
+
   /**
    * Does all required pre-requisites and updates the viewbox of the svg container.
    */
@@ -288,12 +743,7 @@ export class SvgContainerComponent implements AfterViewInit, OnChanges {
         .pattern(
           this.grid.width,
           this.grid.height,
-          (addedPattern: Pattern) => {
-            addedPattern
-              .rect(this.grid.width, this.grid.height)
-              .fill('transparent')
-              .stroke(this.grid.strokeColor);
-          }
+          (addedPattern: Pattern) => drawPatternPreset(addedPattern, 'grid', this.grid.width, this.grid.height, this.grid.strokeColor)
         );
 
       // Let's create grid
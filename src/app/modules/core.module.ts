@@ -17,10 +17,36 @@ import { SvgCircleDirective } from './directives/svg-circle.directive';
 import { SvgEllipseDirective } from './directives/svg-ellipse.directive';
 import { SvgLineDirective } from './directives/svg-line.directive';
 import { SvgPolylineDirective } from './directives/svg-polyline.directive';
+import { SvgCurveDirective } from './directives/svg-curve.directive';
 import { SvgPolygonDirective } from './directives/svg-polygon.directive';
+import { SvgRegularPolygonDirective } from './directives/svg-regular-polygon.directive';
+import { SvgStarDirective } from './directives/svg-star.directive';
 import { SvgImageDirective } from './directives/svg-image.directive';
 import { SvgPathDirective } from './directives/svg-path.directive';
+import { SvgArcDirective } from './directives/svg-arc.directive';
 import { SvgTextDirective } from './directives/svg-text.directive';
+import { SvgTspanDirective } from './directives/svg-tspan.directive';
+import { SvgTextPathDirective } from './directives/svg-text-path.directive';
+import { SvgGroupDirective } from './directives/svg-group.directive';
+import { SvgForeignObjectDirective } from './directives/svg-foreign-object.directive';
+import { SvgTransformerDirective } from './directives/svg-transformer.directive';
+import { SvgLinearGradientDirective } from './directives/svg-linear-gradient.directive';
+import { SvgRadialGradientDirective } from './directives/svg-radial-gradient.directive';
+import { SvgStopDirective } from './directives/svg-stop.directive';
+import { SvgPatternDirective } from './directives/svg-pattern.directive';
+import { SvgMarkerDirective } from './directives/svg-marker.directive';
+import { SvgSymbolDirective } from './directives/svg-symbol.directive';
+import { SvgUseDirective } from './directives/svg-use.directive';
+import { SvgClipPathDirective } from './directives/svg-clip-path.directive';
+import { SvgMaskDirective } from './directives/svg-mask.directive';
+import { SvgFilterDirective } from './directives/svg-filter.directive';
+import { SvgFeGaussianBlurDirective } from './directives/svg-fe-gaussian-blur.directive';
+import { SvgFeOffsetDirective } from './directives/svg-fe-offset.directive';
+import { SvgFeDropShadowDirective } from './directives/svg-fe-drop-shadow.directive';
+import { SvgFeColorMatrixDirective } from './directives/svg-fe-color-matrix.directive';
+import { SvgFeMergeDirective } from './directives/svg-fe-merge.directive';
+import { SvgFeFloodDirective } from './directives/svg-fe-flood.directive';
+import { SvgFeCompositeDirective } from './directives/svg-fe-composite.directive';
 
 @NgModule({
   imports: [
@@ -33,10 +59,36 @@ import { SvgTextDirective } from './directives/svg-text.directive';
     SvgEllipseDirective,
     SvgLineDirective,
     SvgPolylineDirective,
+    SvgCurveDirective,
     SvgPolygonDirective,
+    SvgRegularPolygonDirective,
+    SvgStarDirective,
     SvgImageDirective,
     SvgPathDirective,
-    SvgTextDirective
+    SvgArcDirective,
+    SvgTextDirective,
+    SvgTspanDirective,
+    SvgTextPathDirective,
+    SvgGroupDirective,
+    SvgForeignObjectDirective,
+    SvgTransformerDirective,
+    SvgLinearGradientDirective,
+    SvgRadialGradientDirective,
+    SvgStopDirective,
+    SvgPatternDirective,
+    SvgMarkerDirective,
+    SvgSymbolDirective,
+    SvgUseDirective,
+    SvgClipPathDirective,
+    SvgMaskDirective,
+    SvgFilterDirective,
+    SvgFeGaussianBlurDirective,
+    SvgFeOffsetDirective,
+    SvgFeDropShadowDirective,
+    SvgFeColorMatrixDirective,
+    SvgFeMergeDirective,
+    SvgFeFloodDirective,
+    SvgFeCompositeDirective
   ],
   declarations: [
     SvgContainerComponent,
@@ -45,10 +97,36 @@ import { SvgTextDirective } from './directives/svg-text.directive';
     SvgEllipseDirective,
     SvgLineDirective,
     SvgPolylineDirective,
+    SvgCurveDirective,
     SvgPolygonDirective,
+    SvgRegularPolygonDirective,
+    SvgStarDirective,
     SvgImageDirective,
     SvgPathDirective,
-    SvgTextDirective
+    SvgArcDirective,
+    SvgTextDirective,
+    SvgTspanDirective,
+    SvgTextPathDirective,
+    SvgGroupDirective,
+    SvgForeignObjectDirective,
+    SvgTransformerDirective,
+    SvgLinearGradientDirective,
+    SvgRadialGradientDirective,
+    SvgStopDirective,
+    SvgPatternDirective,
+    SvgMarkerDirective,
+    SvgSymbolDirective,
+    SvgUseDirective,
+    SvgClipPathDirective,
+    SvgMaskDirective,
+    SvgFilterDirective,
+    SvgFeGaussianBlurDirective,
+    SvgFeOffsetDirective,
+    SvgFeDropShadowDirective,
+    SvgFeColorMatrixDirective,
+    SvgFeMergeDirective,
+    SvgFeFloodDirective,
+    SvgFeCompositeDirective
   ],
   providers: [],
 })
@@ -1,9 +1,35 @@
+export * from './svg-arc.directive';
 export * from './svg-circle.directive';
+export * from './svg-clip-path.directive';
+export * from './svg-curve.directive';
 export * from './svg-ellipse.directive';
+export * from './svg-fe-color-matrix.directive';
+export * from './svg-fe-composite.directive';
+export * from './svg-fe-drop-shadow.directive';
+export * from './svg-fe-flood.directive';
+export * from './svg-fe-gaussian-blur.directive';
+export * from './svg-fe-merge.directive';
+export * from './svg-fe-offset.directive';
+export * from './svg-filter.directive';
+export * from './svg-foreign-object.directive';
+export * from './svg-group.directive';
 export * from './svg-image.directive';
 export * from './svg-line.directive';
+export * from './svg-linear-gradient.directive';
+export * from './svg-marker.directive';
+export * from './svg-mask.directive';
 export * from './svg-path.directive';
+export * from './svg-pattern.directive';
 export * from './svg-polygon.directive';
 export * from './svg-polyline.directive';
+export * from './svg-radial-gradient.directive';
 export * from './svg-rect.directive';
+export * from './svg-regular-polygon.directive';
+export * from './svg-star.directive';
+export * from './svg-stop.directive';
+export * from './svg-symbol.directive';
+export * from './svg-text-path.directive';
 export * from './svg-text.directive';
+export * from './svg-transformer.directive';
+export * from './svg-tspan.directive';
+export * from './svg-use.directive';
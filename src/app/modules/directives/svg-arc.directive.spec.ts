@@ -0,0 +1,215 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgArcDirective } from './svg-arc.directive';
+
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-arc [cx]="cx" [cy]="cy" [innerRadius]="innerRadius" [outerRadius]="outerRadius"
+        [startAngle]="startAngle" [endAngle]="endAngle" [cornerRadius]="cornerRadius" [padAngle]="padAngle"
+        [color]="color" [classes]="classes" [animate]="animate"
+        (clickEvent)="eventCalled()"
+        (doubleClickEvent)="eventCalled()"
+        (mouseOverEvent)="eventCalled()"
+        (mouseOutEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createArc"></svg-arc>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createArc = true;
+  public cx = 50;
+  public cy = 50;
+  public innerRadius = 0;
+  public outerRadius = 50;
+  public startAngle = 0;
+  public endAngle = 90;
+  public cornerRadius = 0;
+  public padAngle = 0;
+  public color = '#f00';
+  public classes = ['slice'];
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgArcDirective) public arcDirective: SvgArcDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Arc Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgArcDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should test that on destroying arc, the path element is removed', () => {
+    expect(html.querySelector('path')).not.toBeNull();
+
+    fixture.destroy();
+
+    expect(html.querySelector('path')).toBeNull();
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should draw the arc clockwise from 12 o\'clock', () => {
+      const path = html.querySelector('path');
+
+      expect(path.getAttribute('d')).toEqual('M50 0A50 50 0 0 1 100 50L50 50Z ');
+      expect(path.getAttribute('fill')).toEqual('#ff0000');
+      expect(path.getAttribute('class')).toEqual('slice');
+    });
+
+    it('Should emit onInitialize on arc creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createArc = false;
+
+      fixture.detectChanges();
+
+      app.createArc = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click, dblclick, mouseover and mouseout event handlers', () => {
+      spyOn(app, 'eventCalled');
+
+      const path = html.querySelector('path');
+      ['click', 'dblclick', 'mouseover', 'mouseout'].forEach((type) => path.dispatchEvent(new MouseEvent(type)));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should draw the inner side of the arc backwards', () => {
+      app.innerRadius = 20;
+      app.endAngle = 180;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toEqual('M50 0A50 50 0 0 1 50 100L50 70A20 20 0 0 0 50 30Z ');
+    });
+
+    it('Should draw the full circle as a ring with the hole', () => {
+      app.innerRadius = 20;
+      app.endAngle = 360;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d'))
+        .toEqual('M50 0A50 50 0 0 1 50 100A50 50 0 0 1 50 0ZM50 30A20 20 0 0 0 50 70A20 20 0 0 0 50 30Z ');
+    });
+
+    it('Should round the corners and keep them within the arc', () => {
+      app.cornerRadius = 10;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d'))
+        .toEqual('M50 11.27A10 10 0 0 1 62.5 1.588A50 50 0 0 1 98.412 37.5A10 10 0 0 1 88.73 50L50 50Z ');
+    });
+
+    it('Should leave the gap of the pad angle on both sides of the arc', () => {
+      app.padAngle = 10;
+
+      fixture.detectChanges();
+
+      const start = html.querySelector('path').getAttribute('d').match(/^M([\d.]+) ([\d.]+)/);
+      expect(Number(start[1])).toBeCloseTo(50 + 50 * Math.sin(5 * Math.PI / 180), 2);
+    });
+  });
+
+  describe('Should test animations', () => {
+    beforeEach(() => {
+      app.animate = { duration: 50, easing: '-' };
+      fixture.detectChanges();
+    });
+
+    it('Should sweep the arc through the angles, instead of morphing the path', async () => {
+      const path = html.querySelector('path');
+      const frames: string[] = [];
+      const observer = new MutationObserver(() => frames.push(path.getAttribute('d')));
+      observer.observe(path, { attributes: true, attributeFilter: ['d'] });
+
+      const animationEnd = new Promise<void>((resolve) => app.arcDirective.animationEnd.subscribe(() => resolve()));
+      app.endAngle = 180;
+
+      fixture.detectChanges();
+
+      expect(path.getAttribute('d')).toEqual('M50 0A50 50 0 0 1 100 50L50 50Z ');
+
+      await animationEnd;
+      observer.disconnect();
+
+      // End of the arc stays on the circle in every frame
+      frames.forEach((frame) => {
+        const [, x, y] = frame.match(/A50 50 0 0 1 ([\d.-]+) ([\d.-]+)/).map(Number);
+        expect(Math.hypot(x - 50, y - 50)).toBeCloseTo(50, 1);
+      });
+      expect(path.getAttribute('d')).toEqual('M50 0A50 50 0 0 1 50 100L50 50Z ');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Path } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { ArcGeometry, arcPath, interpolateArc, isSameArc } from '../util/arc.util';
+
+@Directive({
+  selector: 'svg-arc'
+})
+export class SvgArcDirective extends SvgBaseDirective {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: Path | null = null;
+  private _geometry: ArcGeometry | null = null; // Geometry of the arc, which is currently drawn.
+  private _previousGeometry: ArcGeometry | null = null; // Geometry drawn before the last update, from which the change is animated.
+
+  /**
+   * Import variables for the arc directive.
+   */
+  @Input() cx = 0; // Center of the arc on x-axis.
+  @Input() cy = 0; // Center of the arc on y-axis.
+  @Input() innerRadius = 0; // Inner radius of the arc, 0 draws a pie slice.
+  @Input() outerRadius = 0; // Outer radius of the arc.
+  @Input() startAngle = 0; // Angle in degrees, where the arc starts, measured clockwise from 12 o'clock.
+  @Input() endAngle = 360; // Angle in degrees, where the arc ends, measured clockwise from 12 o'clock.
+  @Input() cornerRadius = 0; // Radius of the rounded corners.
+  @Input() padAngle = 0; // Angle in degrees of the gap, which is left between the adjacent arcs.
+  @Output() cxChange: EventEmitter<number> = new EventEmitter(); // Emits new center on x-axis, after the arc has been dragged.
+  @Output() cyChange: EventEmitter<number> = new EventEmitter(); // Emits new center on y-axis, after the arc has been dragged.
+
+  /**
+   * Create SVG Arc directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Update arc object within the SVG container.
+   */
+  override updateShape(): void {
+    this._previousGeometry = this._geometry;
+    this.setAttributes();
+    this.addRemoveClasses(this.classes);
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create arc object within the SVG container.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    if (!container) {
+      return;
+    }
+    this._shape = container
+      .path() // Create the path, which draws the arc
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    this.setAttributes();
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the arc
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the arc element
+    this.onInitialize.emit(this._shape);
+  }
+
+  /**
+   * Tweens the angles and radii of the arc, so that it sweeps instead of morphing its path.
+   * @returns Function, which draws the arc at the position of the animation, or null if geometry hasn't changed.
+   */
+  protected override getAnimationStep(): ((position: number) => void) | null {
+    const from = this._previousGeometry;
+    const to = this._geometry;
+    if (!from || !to || isSameArc(from, to)) {
+      return null;
+    }
+    return (position: number) => this.drawArc(interpolateArc(from, to, position));
+  }
+
+  /**
+   * Moves the arc while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.cx = Number(this.cx) + dx;
+    this.cy = Number(this.cy) + dy;
+  }
+
+  /**
+   * Emits new center of the arc after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.cxChange.emit(this.cx);
+    this.cyChange.emit(this.cy);
+  }
+
+  /**
+   * Draws the arc from the inputs and sets its paint.
+   */
+  private setAttributes(): void {
+    this.drawArc({
+      cx: Number(this.cx),
+      cy: Number(this.cy),
+      innerRadius: Number(this.innerRadius),
+      outerRadius: Number(this.outerRadius),
+      startAngle: Number(this.startAngle),
+      endAngle: Number(this.endAngle),
+      cornerRadius: Number(this.cornerRadius),
+      padAngle: Number(this.padAngle)
+    });
+
+    // Set the fill, border and opacity of the arc
+    this.setPaint();
+  }
+
+  /**
+   * Plots the path of the arc.
+   * @param geometry - Geometry of the arc, which should be drawn.
+   */
+  private drawArc(geometry: ArcGeometry): void {
+    if (this._shape) {
+      this._shape.plot(arcPath(geometry));
+      this._geometry = geometry;
+    }
+  }
+}
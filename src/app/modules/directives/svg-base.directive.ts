@@ -1,26 +1,83 @@
 import { AfterViewChecked, Directive, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
 
-import { Shape } from '@svgdotjs/svg.js';
+import { Box, Container, CoordinateXY, Element, Marker, Matrix, MatrixTransformParam, Runner, Shape } from '@svgdotjs/svg.js';
 
 import { SvgContainerComponent } from '../components';
+import { SvgAnimation, SvgBox, SvgDragEvent, SvgEditableShape, SvgGlow, SvgKeyframe, SvgShadow, SvgTransform } from '../models';
+import { SvgParent } from './svg-parent';
 import { getClassesToAddAndRemove } from '../util/handle-class-changes.util';
+import { SvgMarkerPosition, drawMarkerPreset, isMarkerPreset } from '../util/marker-preset.util';
+import { createFilterElement, drawFilterPreset } from '../util/filter.util';
+import { getEasingFunction, isAnimatable } from '../util/animation.util';
+
+/**
+ * List of inputs, which affect fill, border, opacity, clipping, masking and filters of the shape.
+ */
+const PAINT_INPUTS = [
+  'color', 'fill', 'borderColor', 'borderSize', 'opacity', 'fillOpacity', 'strokeOpacity', 'strokeDasharray', 'strokeLinecap', 'strokeLinejoin',
+  'clipPath', 'mask', 'filter', 'blur', 'shadow', 'glow'
+];
 
 @Directive()
-export class SvgBaseDirective implements AfterViewChecked, OnChanges, OnDestroy {
+export class SvgBaseDirective<T extends Element = Shape> implements AfterViewChecked, OnChanges, OnDestroy, SvgEditableShape {
   @Input() protected color = '#000'; // Color of the shape background
   @Input() protected classes: string[] = []; // List of CSS classes which needs to be added.
+  @Input() fill: string | null = null; // Fill color of the shape, takes precedence over color.
+  @Input() borderColor: string | null = null; // Color of the border. Defaults to black if only border size is set.
+  @Input() borderSize: number | null = null; // Size of the border.
+  @Input() opacity: number | null = null; // Opacity of the whole shape, between 0 and 1.
+  @Input() fillOpacity: number | null = null; // Opacity of the shape fill, between 0 and 1.
+  @Input() strokeOpacity: number | null = null; // Opacity of the border, between 0 and 1.
+  @Input() strokeDasharray: string | number[] | null = null; // Dash pattern of the border, e.g. '5 2' or [5, 2].
+  @Input() strokeLinecap: 'butt' | 'round' | 'square' | null = null; // Shape of the border ends.
+  @Input() strokeLinejoin: 'miter' | 'round' | 'bevel' | null = null; // Shape of the border corners.
+  @Input() clipPath: string | null = null; // Reference to the clip path, which clips the shape, e.g. 'url(#id)'.
+  @Input() mask: string | null = null; // Reference to the mask, which masks the shape, e.g. 'url(#id)'.
+  @Input() filter: string | null = null; // Reference to the filter, e.g. 'url(#id)'. Takes precedence over blur, shadow and glow.
+  @Input() blur: number | null = null; // Standard deviation of the shape blur.
+  @Input() shadow: SvgShadow | null = null; // Drop shadow of the shape, where empty object draws the default shadow.
+  @Input() glow: SvgGlow | null = null; // Glow around the shape, where empty object draws the default glow.
+  @Input() rotate = 0; // Rotation of the shape in degrees.
+  @Input() scaleX = 1; // Scale of the shape on x-axis.
+  @Input() scaleY = 1; // Scale of the shape on y-axis.
+  @Input() skewX = 0; // Skew of the shape on x-axis in degrees.
+  @Input() skewY = 0; // Skew of the shape on y-axis in degrees.
+  @Input() translateX = 0; // Translation of the shape on x-axis.
+  @Input() translateY = 0; // Translation of the shape on y-axis.
+  @Input() origin: CoordinateXY | string | null = null; // Origin of rotation, scale and skew, e.g. 'top left' or [x, y].
+  @Input() draggable = false; // Indicator if user should be able to move the shape by dragging it.
+  @Input() dragAxis: 'x' | 'y' | null = null; // Axis to which dragging should be limited.
+  @Input() dragBounds: SvgBox | null = null; // Box the shape can't be dragged out of.
+  @Input() snapToGrid = false; // Indicator if dragged shape should snap to the grid of the container.
+  @Input() animate: SvgAnimation | null = null; // Timing of the animation of input changes, e.g. { duration: 300 }.
 
   @Output() public clickEvent: EventEmitter<Event> = new EventEmitter();
   @Output() public doubleClickEvent: EventEmitter<Event> = new EventEmitter();
   @Output() public mouseOverEvent: EventEmitter<Event> = new EventEmitter();
   @Output() public mouseOutEvent: EventEmitter<Event> = new EventEmitter();
-  @Output() public onInitialize: EventEmitter<Shape> = new EventEmitter();
+  @Output() public onInitialize: EventEmitter<T> = new EventEmitter();
+  @Output() public transformChange: EventEmitter<SvgTransform> = new EventEmitter();
+  @Output() public dragStart: EventEmitter<SvgDragEvent> = new EventEmitter();
+  @Output() public dragMove: EventEmitter<SvgDragEvent> = new EventEmitter();
+  @Output() public dragEnd: EventEmitter<SvgDragEvent> = new EventEmitter();
+  @Output() public animationStart: EventEmitter<void> = new EventEmitter();
+  @Output() public animationEnd: EventEmitter<void> = new EventEmitter();
 
-  protected _shape: Shape | null = null;
+  protected _shape: T | null = null;
+  public readonly resizable: boolean = false; // Indicator if shape can be resized by interactive tools, e.g. the transformer.
+  public readonly fixedAspectRatio: boolean = false; // Indicator if shape always keeps its aspect ratio while resizing.
+  private _dragStart: { x: number, y: number, box: Box } | null = null; // Pointer position and transformed shape box at drag start.
+  private _dragDelta = { dx: 0, dy: 0 }; // Distance the shape has been moved during the current drag.
+  private _markers: Partial<Record<SvgMarkerPosition, Marker>> = {}; // Preset markers created in defs for this shape.
+  private _presetFilter: Element | null = null; // Filter created in defs for blur, shadow and glow of this shape.
+  private _runners: Runner[] = []; // Runners of the animation, which is currently scheduled.
+  private readonly _onDragMove = (event: PointerEvent) => this.moveDrag(event);
+  private readonly _onDragEnd = (event: PointerEvent) => this.endDrag(event);
 
   constructor(
     protected _svgContainer: SvgContainerComponent,
-    protected _elRef: ElementRef
+    protected _elRef: ElementRef,
+    protected _svgParent: SvgParent | null = null
   ) {
   }
   /**
@@ -43,6 +100,406 @@ export class SvgBaseDirective implements AfterViewChecked, OnChanges, OnDestroy
   // protected setAttributes(): void {}
 
 
+  /**
+   * This method is meant to be overridden by child classes to support dragging.
+   * User must implement how position inputs of the shape are moved.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected shiftPosition(dx: number, dy: number): void {}
+
+  /**
+   * This method is meant to be overridden by child classes to support dragging.
+   * User must implement how position inputs of the shape are emitted after the drag.
+   */
+  protected emitPositionChange(): void {}
+
+  /**
+   * This method is meant to be overridden by child classes to support resizing.
+   * User must implement how position and size inputs of the shape are set from the box.
+   * @param box - New bounding box of the shape, without transformation.
+   */
+  protected setBox(box: SvgBox): void {}
+
+  /**
+   * This method is meant to be overridden by child classes to support resizing.
+   * User must implement how position and size inputs of the shape are emitted after the resize.
+   */
+  protected emitBoxChange(): void {}
+
+  /**
+   * This method is meant to be overridden by child classes, which draw the shape from values that can't be tweened as attributes.
+   * User must implement how the shape is drawn at the position of the animation. Is called after the shape has been updated.
+   * @returns Function, which draws the shape at the eased position between 0 and 1, or null if there is nothing to animate.
+   */
+  protected getAnimationStep(): ((position: number) => void) | null {
+    return null;
+  }
+
+  /**
+   * This method is meant to be overridden by child classes to support markers.
+   * User must implement which markers are drawn on the vertices of the shape.
+   * @returns Preset name or reference, e.g. 'url(#id)', for each of the marker positions.
+   */
+  protected getMarkers(): Partial<Record<SvgMarkerPosition, string | null>> {
+    return {};
+  }
+
+  /**
+   * Retrieves the svg.js element of the shape.
+   * @returns Element instance, or null if it is not created yet.
+   */
+  getElement(): T | null {
+    return this._shape;
+  }
+
+  /**
+   * Moves the shape by the specified distance. Meant to be used by interactive tools.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   * @param emitChange - Indicator if new position should be emitted.
+   */
+  moveBy(dx: number, dy: number, emitChange = true): void {
+    if (!this._shape) {
+      return;
+    }
+    this.stopAnimation();
+    this.shiftPosition(dx, dy);
+    this.updateShape();
+    this.setTransform();
+    this.notifyParent();
+
+    if (emitChange) {
+      this.emitPositionChange();
+    }
+  }
+
+  /**
+   * Changes position and size of the shape, so it fits the box. Meant to be used by interactive tools.
+   * @param box - New bounding box of the shape, without transformation.
+   * @param emitChange - Indicator if new position and size should be emitted.
+   */
+  resizeTo(box: SvgBox, emitChange = true): void {
+    if (!this.resizable || !this._shape) {
+      return;
+    }
+    this.stopAnimation();
+    this.setBox(box);
+    this.updateShape();
+    this.setTransform();
+    this.notifyParent();
+
+    if (emitChange) {
+      this.emitBoxChange();
+    }
+  }
+
+  /**
+   * Retrieves box of the shape without transformation, which interactive tools resize and around which the shape is transformed.
+   * @returns Bounding box of the shape, or null if it is not created yet.
+   */
+  getBox(): SvgBox | null {
+    return this._shape ? this._shape.bbox() : null;
+  }
+
+  /**
+   * Retrieves fill color of the shape.
+   * @returns Fill input if it is set, otherwise color input.
+   */
+  protected getFill(): string | null {
+    return this.fill ?? this.color;
+  }
+
+  /**
+   * Retrieves border color of the shape.
+   * @returns Border color input if it is set, otherwise black if only border size is set.
+   */
+  protected getStroke(): string | null {
+    return this.borderColor ?? (this.borderSize ? '#000' : null);
+  }
+
+  /**
+   * Sets fill, border, opacity, clipping, masking and filter attributes of the shape. Attributes without value are removed.
+   */
+  protected setPaint(): void {
+    this._shape?.attr({
+      fill: this.getFill() || null,
+      stroke: this.getStroke(),
+      'stroke-width': this.borderSize,
+      opacity: this.opacity,
+      'fill-opacity': this.fillOpacity,
+      'stroke-opacity': this.strokeOpacity,
+      'stroke-dasharray': this.strokeDasharray,
+      'stroke-linecap': this.strokeLinecap,
+      'stroke-linejoin': this.strokeLinejoin,
+      'clip-path': this.clipPath,
+      mask: this.mask
+    });
+    this.setMarkers();
+    this.setFilter();
+  }
+
+  /**
+   * Sets filter of the shape. Blur, shadow and glow are drawn into a filter owned by the shape, unless filter reference is set.
+   */
+  private setFilter(): void {
+    const shape = this._shape;
+    const defs = this._svgContainer.getContainer()?.defs();
+    if (!shape || !defs) {
+      return;
+    }
+    if (!this.filter && (this.blur || this.shadow || this.glow)) {
+      const filter = this._presetFilter ?? createFilterElement('filter').addTo(defs);
+      drawFilterPreset(filter, this.blur, this.shadow, this.glow);
+      this._presetFilter = filter;
+      shape.attr('filter', `url(#${filter.id()})`);
+    } else {
+      // Let's remove preset filter, which is not used anymore
+      this._presetFilter?.remove();
+      this._presetFilter = null;
+      shape.attr('filter', this.filter);
+    }
+  }
+
+  /**
+   * Sets markers of the shape. Presets are drawn into markers owned by the shape, so they take over its border color,
+   * while other values are set as they are.
+   */
+  private setMarkers(): void {
+    const shape = this._shape;
+    const defs = this._svgContainer.getContainer()?.defs();
+    if (!shape || !defs) {
+      return;
+    }
+    const markers = this.getMarkers();
+    (Object.keys(markers) as SvgMarkerPosition[]).forEach((position) => {
+      const value = markers[position] ?? null;
+      let marker = this._markers[position];
+
+      if (isMarkerPreset(value)) {
+        marker = marker ?? defs.marker(10, 10);
+        drawMarkerPreset(marker, value, this.getStroke() ?? '#000');
+        this._markers[position] = marker;
+        shape.attr(`marker-${position}`, marker.toString());
+      } else {
+        // Let's remove preset marker, which is not used anymore
+        marker?.remove();
+        delete this._markers[position];
+        shape.attr(`marker-${position}`, value);
+      }
+    });
+  }
+
+  /**
+   * Checks if any of the fill, border, opacity, clipping, masking or filter inputs have changed.
+   * @param changes - Angular Simple Changes object containing all the changes.
+   * @returns Indicator if paint attributes need to be updated.
+   */
+  protected hasPaintChanges(changes: SimpleChanges): boolean {
+    return PAINT_INPUTS.some((input) => changes[input] && changes[input].currentValue !== changes[input].previousValue);
+  }
+
+  /**
+   * Retrieves current transformation of the shape.
+   * @returns Transformation object built from the transform inputs.
+   */
+  getTransform(): SvgTransform {
+    const { rotate, scaleX, scaleY, skewX, skewY, translateX, translateY } = this;
+
+    return { rotate, scaleX, scaleY, skewX, skewY, translateX, translateY };
+  }
+
+  /**
+   * Changes transformation of the shape and notifies about the change. Meant to be used by interactive tools.
+   * @param transform - Transformation values, which need to be changed.
+   * @param emitChange - Indicator if new transformation should be emitted.
+   */
+  applyTransform(transform: Partial<SvgTransform>, emitChange = true): void {
+    this.stopAnimation();
+    Object.assign(this, transform);
+    this.setTransform();
+    this.notifyParent();
+
+    if (emitChange) {
+      this.transformChange.emit(this.getTransform());
+    }
+  }
+
+  /**
+   * Sets transform attribute of the shape. Must be called after position and size are updated,
+   * since origin is calculated from the bounding box of the shape.
+   */
+  protected setTransform(): void {
+    const shape = this._shape;
+    if (!shape) {
+      return;
+    }
+    const { rotate, scaleX, scaleY, skewX, skewY, translateX, translateY } = this;
+
+    // Let's remove transform attribute if the shape is not transformed
+    if (!rotate && scaleX === 1 && scaleY === 1 && !skewX && !skewY && !translateX && !translateY) {
+      shape.attr('transform', null);
+      return;
+    }
+
+    shape.transform(this.getTransformParams(this.getTransform()));
+  }
+
+  /**
+   * Converts transformation to the format accepted by svg.js.
+   * @param transform - Transformation of the shape.
+   * @returns Transformation parameters with the origin of the shape.
+   */
+  private getTransformParams(transform: SvgTransform): MatrixTransformParam {
+    const { rotate, scaleX, scaleY, skewX, skewY, translateX, translateY } = transform;
+    const box = this.getBox();
+
+    // Shape is transformed around the center of its box, unless origin is set
+    const origin = this.origin ?? (box ? [box.x + box.width / 2, box.y + box.height / 2] as CoordinateXY : null);
+
+    return {
+      rotate,
+      scale: [scaleX, scaleY],
+      skew: [skewX, skewY],
+      translate: [translateX, translateY],
+      ...(origin !== null ? { origin } : {})
+    };
+  }
+
+  /**
+   * Animates the shape through the keyframes one after another. Inputs of the shape are not changed,
+   * so the shape goes back to its inputs on their next change.
+   * @param keyframes - List of keyframes, each with its own target values and timing.
+   */
+  animateKeyframes(keyframes: SvgKeyframe[]): void {
+    const shape = this._shape;
+    if (!shape || !keyframes.length) {
+      return;
+    }
+    this.stopAnimation();
+
+    const runners = keyframes.map((keyframe, index) => {
+      const runner = this.createRunner(shape, keyframe, index === 0 ? 'now' : 'last');
+      if (keyframe.attributes) {
+        runner.attr(keyframe.attributes);
+      }
+      if (keyframe.transform) {
+        runner.transform(this.getTransformParams({ ...this.getTransform(), ...keyframe.transform }), false, true);
+      }
+      return runner;
+    });
+    this.startRunners(runners);
+  }
+
+  /**
+   * Checks if the animation of the shape is scheduled or running.
+   * @returns Indicator if there are runners, which haven't finished yet.
+   */
+  protected isAnimating(): boolean {
+    return this._runners.length > 0;
+  }
+
+  /**
+   * Stops the animation, leaving the shape in its current state.
+   */
+  stopAnimation(): void {
+    this._runners.forEach((runner) => runner.unschedule());
+    this._runners = [];
+  }
+
+  /**
+   * Applies changes of the inputs and tweens changed geometry, colors and transformation, if animate input is set.
+   * Values, which can't be tweened, e.g. text content or references, are changed immediately.
+   * @param update - Function, which updates the shape from the inputs.
+   */
+  protected animateChanges(update: () => void): void {
+    const shape = this._shape;
+    if (!shape || !this.animate) {
+      update();
+      return;
+    }
+    const before = shape.attr();
+    update();
+    const after = shape.attr();
+    const step = this.getAnimationStep();
+
+    // Path drawn by the step is redrawn on every frame, instead of being morphed
+    const changed = Object.keys(after).filter((attribute) =>
+      attribute !== 'transform' && !(step && attribute === 'd') && isAnimatable(attribute, before[attribute], after[attribute])
+    );
+    const transform = before.transform !== after.transform ? this.getTransformTarget() : null;
+    if (!changed.length && !transform && !step) {
+      return;
+    }
+
+    // Let's bring back the previous values, so that animation starts from them
+    const target: { [attribute: string]: number | string } = {};
+    changed.forEach((attribute) => {
+      target[attribute] = after[attribute];
+      shape.attr(attribute, before[attribute]);
+    });
+    if (transform) {
+      shape.attr('transform', before.transform ?? null);
+    }
+    step?.(0);
+
+    this.stopAnimation();
+    const runner = this.createRunner(shape, this.animate, 'now').attr(target);
+    if (transform) {
+      // Affine morphing rotates and scales the shape instead of interpolating the matrix values
+      runner.transform(transform, false, true);
+    }
+    if (step) {
+      // Runner passes linear position to the step, so let's ease it the same way as the attributes
+      const ease = getEasingFunction(this.animate.easing ?? '<>');
+      runner.during((position: number) => step(ease(position)));
+    }
+    this.startRunners([runner]);
+  }
+
+  /**
+   * Retrieves transformation, which the shape is animated to, when transform inputs change.
+   * @returns Transformation parameters, or null if transformation should be changed without animation.
+   */
+  protected getTransformTarget(): MatrixTransformParam | null {
+    return this.getTransformParams(this.getTransform());
+  }
+
+  /**
+   * Creates runner, which animates the shape.
+   * @param shape - Element which is animated.
+   * @param animation - Timing of the animation.
+   * @param when - Indicator if runner starts immediately or after the previous runner.
+   * @returns Scheduled runner.
+   */
+  private createRunner(shape: T, animation: SvgAnimation, when: 'now' | 'last'): Runner {
+    const { duration = 300, delay = 0, easing = '<>' } = animation;
+    return shape.animate(duration, delay, when).ease(getEasingFunction(easing));
+  }
+
+  /**
+   * Keeps track of the scheduled runners and notifies about the start and the end of the animation.
+   * @param runners - Runners, which are run one after another.
+   */
+  private startRunners(runners: Runner[]): void {
+    this._runners = runners;
+
+    // Initialisation of the first runner happens, once its delay has passed
+    runners[0].queue(() => this.animationStart.emit(), () => true);
+    runners[runners.length - 1].after(() => {
+      this._runners = [];
+      this.notifyParent();
+      this.animationEnd.emit();
+    });
+  }
+
+  /**
+   * Notifies parent element, that the shape has been created, changed or removed, so the parent could update itself.
+   */
+  protected notifyParent(): void {
+    this._svgParent?.onChildChange?.();
+  }
+
   /**
    * Adds classes to the shape object.
    * @param classesToAdd - List of classes, which needs to be added.
@@ -60,11 +517,19 @@ export class SvgBaseDirective implements AfterViewChecked, OnChanges, OnDestroy
     }
   }
 
+  /**
+   * Retrieves container, to which the shape should be added.
+   * @returns Parent element container if directive is nested, otherwise the root svg container.
+   */
+  protected getParentContainer(): Container | null {
+    return this._svgParent ? this._svgParent.getContainer() : this._svgContainer.getContainer();
+  }
+
   /**
    * Sets correct position for the element.
    */
   protected setCorrectPosition() {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     const shape = this._shape;
     if (!container || !shape) {
       return;
@@ -85,7 +550,11 @@ export class SvgBaseDirective implements AfterViewChecked, OnChanges, OnDestroy
   ngOnChanges(changes: SimpleChanges): void {
     if (this._shape) {
       // If we have already created the object, update it.
-      this.updateShape();
+      this.animateChanges(() => {
+        this.updateShape();
+        this.setTransform();
+      });
+      this.notifyParent();
 
       // Check if classes were changed
       const { classesToAdd, classesToRemove } = getClassesToAddAndRemove(changes);
@@ -97,8 +566,17 @@ export class SvgBaseDirective implements AfterViewChecked, OnChanges, OnDestroy
   }
 
   ngAfterViewChecked(): void {
-    if (this._svgContainer.getContainer() && !this._shape) {
+    if (this.getParentContainer() && !this._shape) {
       this.createShape();
+      this.setTransform();
+      this.listenToPointer();
+
+      // Only top level shapes can be selected, nested shapes are selected together with their parent
+      if (this._shape && !this._svgParent) {
+        this._svgContainer.selection.register(this);
+      } else if (this._shape) {
+        this.notifyParent();
+      }
     }
   }
 
@@ -106,6 +584,161 @@ export class SvgBaseDirective implements AfterViewChecked, OnChanges, OnDestroy
    * Does all required pre-requisites before destroying the component.
    */
   ngOnDestroy(): void {
+    this._svgContainer.selection.unregister(this);
+    this.stopListeningToDrag();
+    this.stopAnimation();
     this._shape?.remove();
+    this._shape = null;
+    Object.values(this._markers).forEach((marker) => marker.remove());
+    this._presetFilter?.remove();
+    this.notifyParent();
+  }
+
+  /**
+   * Starts listening to the shape being pressed, so it could be selected and dragged.
+   */
+  private listenToPointer(): void {
+    this._shape?.on('pointerdown', (evt: Event) => {
+      this.select(evt as PointerEvent);
+      this.startDrag(evt as PointerEvent);
+    });
+  }
+
+  /**
+   * Selects the shape when it is pressed, or toggles its selection when shift is held.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private select(event: PointerEvent): void {
+    const selection = this._svgContainer.selection;
+    if (!this._svgContainer.selectable || this._svgParent || event.button !== 0) {
+      return;
+    }
+    if (event.shiftKey) {
+      selection.toggle(this);
+    } else if (!selection.isSelected(this)) {
+      selection.select([this]);
+    }
+  }
+
+  /**
+   * Starts dragging the shape, when it is pressed.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private startDrag(event: PointerEvent): void {
+    const container = this.getParentContainer();
+    if (!this.draggable || !this._shape || !container || event.button !== 0) {
+      return;
+    }
+
+    // Make sure container does not start panning
+    event.stopPropagation();
+    event.preventDefault();
+
+    const { x, y } = container.point(event.clientX, event.clientY);
+    this._dragStart = { x, y, box: this.getParentBox(this._shape) };
+    this._dragDelta = { dx: 0, dy: 0 };
+
+    document.addEventListener('pointermove', this._onDragMove);
+    document.addEventListener('pointerup', this._onDragEnd);
+    document.addEventListener('pointercancel', this._onDragEnd);
+
+    this.dragStart.emit({ x, y, dx: 0, dy: 0, event });
+  }
+
+  /**
+   * Retrieves box of the shape in coordinates of its parent, where the shape is moved. Unlike the box used for transformation,
+   * it includes rotation, scale, skew and translation of the shape, e.g. the translation a dragged group keeps between the drags.
+   * @param shape - Element of the shape.
+   * @returns Bounding box of the transformed shape.
+   */
+  private getParentBox(shape: T): Box {
+    return shape.bbox().transform(new Matrix(shape));
+  }
+
+  /**
+   * Moves the shape according to the pointer position and drag constraints.
+   * Pointer is converted to the coordinates of the parent, including its transformation, e.g. of the group the shape is nested in.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private moveDrag(event: PointerEvent): void {
+    const container = this.getParentContainer();
+    const start = this._dragStart;
+    if (!container || !start) {
+      return;
+    }
+    const { x, y } = container.point(event.clientX, event.clientY);
+    const { dx, dy } = this.constrainDrag(x - start.x, y - start.y, start.box);
+
+    // Let's move the shape only by the distance it has not been moved yet
+    if (dx !== this._dragDelta.dx || dy !== this._dragDelta.dy) {
+      this.moveBy(dx - this._dragDelta.dx, dy - this._dragDelta.dy, false);
+      this._dragDelta = { dx, dy };
+    }
+
+    this.dragMove.emit({ x, y, dx, dy, event });
+  }
+
+  /**
+   * Finishes dragging the shape and emits its new position.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private endDrag(event: PointerEvent): void {
+    const container = this.getParentContainer();
+    this.stopListeningToDrag();
+    if (!container || !this._dragStart) {
+      return;
+    }
+    const { x, y } = container.point(event.clientX, event.clientY);
+    const { dx, dy } = this._dragDelta;
+    this._dragStart = null;
+
+    if (dx || dy) {
+      this.emitPositionChange();
+    }
+
+    this.dragEnd.emit({ x, y, dx, dy, event });
+  }
+
+  /**
+   * Applies axis lock, grid snapping and bounds to the distance the shape is dragged.
+   * @param dx - Distance the pointer has moved on x-axis.
+   * @param dy - Distance the pointer has moved on y-axis.
+   * @param box - Bounding box of the shape in coordinates of its parent at the start of the drag.
+   * @returns Distance the shape should be moved.
+   */
+  private constrainDrag(dx: number, dy: number, box: Box): { dx: number, dy: number } {
+    // Let's lock the axis
+    if (this.dragAxis === 'x') {
+      dy = 0;
+    } else if (this.dragAxis === 'y') {
+      dx = 0;
+    }
+
+    // Let's snap top left corner of the shape to the grid
+    const grid = this._svgContainer.grid;
+    if (this.snapToGrid && grid.width && dx) {
+      dx = Math.round((box.x + dx) / grid.width) * grid.width - box.x;
+    }
+    if (this.snapToGrid && grid.height && dy) {
+      dy = Math.round((box.y + dy) / grid.height) * grid.height - box.y;
+    }
+
+    // Let's keep the shape within the bounds
+    const bounds = this.dragBounds;
+    if (bounds) {
+      dx = Math.max(Math.min(dx, bounds.x + bounds.width - box.x2), bounds.x - box.x);
+      dy = Math.max(Math.min(dy, bounds.y + bounds.height - box.y2), bounds.y - box.y);
+    }
+
+    return { dx, dy };
+  }
+
+  /**
+   * Removes pointer listeners used while dragging.
+   */
+  private stopListeningToDrag(): void {
+    document.removeEventListener('pointermove', this._onDragMove);
+    document.removeEventListener('pointerup', this._onDragEnd);
+    document.removeEventListener('pointercancel', this._onDragEnd);
   }
 }
@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, ElementRef } from '@angular/core';
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
@@ -12,6 +12,7 @@ import { Circle } from '@svgdotjs/svg.js';
  * Import custom components.
  */
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
 import { SvgContainerComponent } from '../components';
 
 @Directive({
@@ -28,16 +29,20 @@ export class SvgCircleDirective extends SvgBaseDirective {
   @Input() diameter = 0; // Diameter of the circle
   @Input() x = 0; // Starting point on x-axis.
   @Input() y = 0; // Starting point on y-axis.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the circle has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the circle has been dragged.
   /**
    * Create SVG Circle directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
-    _elRef: ElementRef
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -51,7 +56,7 @@ export class SvgCircleDirective extends SvgBaseDirective {
    * Create circle object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
@@ -70,11 +75,30 @@ export class SvgCircleDirective extends SvgBaseDirective {
   private setAttributes() {
     this._shape
       ?.size(this.diameter) // Set the diameter (twice the radius)
-      .fill(this.color) // Set the fill color
       .attr('cx', Number(this.x) + this.diameter / 2) // Set x position
       .attr('cy', Number(this.y) + this.diameter / 2); // Set y position
 
+    this.setPaint(); // Set the fill, border and opacity
+
     this.setCorrectPosition(); // Set the correct position
     this.addRemoveClasses(this.classes); // Add classes to the circle
   }
+
+  /**
+   * Moves the circle while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the circle after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
 }
@@ -0,0 +1,149 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgClipPathDirective } from './svg-clip-path.directive';
+import { SvgCircleDirective } from './svg-circle.directive';
+import { SvgImageDirective } from './svg-image.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-clip-path clipPathId="test-clip" [clipPathUnits]="clipPathUnits"
+        (onInitialize)="eventCalled()"
+        *ngIf="createClipPath">
+        <svg-circle [x]="10" [y]="10" [diameter]="diameter"></svg-circle>
+      </svg-clip-path>
+      <svg-image imageUrl="" [x]="10" [y]="10" [width]="40" [height]="40" [clipPath]="clipPath"></svg-image>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createClipPath = true;
+  public clipPathUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null;
+  public clipPath: string | null = 'url(#test-clip)';
+  public diameter = 40;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Clip Path Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgClipPathDirective,
+        SvgCircleDirective,
+        SvgImageDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the clip path with its nested shapes in defs', () => {
+    const clipPath = html.querySelector('defs clipPath');
+
+    expect(clipPath.getAttribute('id')).toEqual('test-clip');
+    expect(clipPath.querySelector('circle').getAttribute('r')).toEqual('20');
+  });
+
+  it('Should clip the shape, which references the clip path', () => {
+    expect(html.querySelector('image').getAttribute('clip-path')).toEqual('url(#test-clip)');
+  });
+
+  it('Should remove clip path reference from the shape, when it is reset to null', () => {
+    app.clipPath = null;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('image').getAttribute('clip-path')).toBeNull();
+  });
+
+  it('Should update nested shapes and clip path attributes', () => {
+    app.diameter = 20;
+    app.clipPathUnits = 'userSpaceOnUse';
+
+    fixture.detectChanges();
+
+    const clipPath = html.querySelector('clipPath');
+    expect(clipPath.getAttribute('clipPathUnits')).toEqual('userSpaceOnUse');
+    expect(clipPath.querySelector('circle').getAttribute('r')).toEqual('10');
+  });
+
+  it('Should emit onInitialize on clip path creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createClipPath = false;
+
+    fixture.detectChanges();
+
+    app.createClipPath = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the clip path from defs on destroy and keep the reference for its recreation', () => {
+    app.createClipPath = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('clipPath')).toBeNull();
+    expect(html.querySelector('image').getAttribute('clip-path')).toEqual('url(#test-clip)');
+
+    app.createClipPath = true;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('clipPath').getAttribute('id')).toEqual('test-clip');
+  });
+});
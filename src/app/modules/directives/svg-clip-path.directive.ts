@@ -0,0 +1,81 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { ClipPath, Container } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgParent } from './svg-parent';
+
+@Directive({
+  selector: 'svg-clip-path',
+  providers: [
+    { provide: SvgParent, useExisting: forwardRef(() => SvgClipPathDirective) }
+  ]
+})
+export class SvgClipPathDirective extends SvgDefinitionDirective<ClipPath> implements SvgParent {
+  /**
+   * Input variables for the clip path directive.
+   */
+  @Input() clipPathId = ''; // Id of the clip path, which shapes use to reference it, e.g. clipPath="url(#id)".
+  @Input() clipPathUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of the clip path contents.
+
+  /**
+   * Create SVG Clip Path directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves clip path element, to which nested directives add their elements.
+   * @returns Clip path instance, or null if it is not created yet.
+   */
+  getContainer(): Container | null {
+    return this._definition;
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the clip path.
+   */
+  override ngOnDestroy(): void {
+    // Let's remove only the node, since svg.js would also unclip the shapes, which then stay unclipped once clip path is recreated
+    this._definition?.node.remove();
+  }
+
+  /**
+   * Creates the clip path in defs.
+   * @param container - Root container of the svg.
+   * @returns Clip path instance.
+   */
+  protected override createDefinition(container: Container): ClipPath {
+    return container.clip();
+  }
+
+  /**
+   * Retrieves id of the clip path.
+   * @returns Id of the clip path.
+   */
+  protected override getId(): string {
+    return this.clipPathId;
+  }
+
+  /**
+   * Retrieves units of the clip path.
+   * @returns Clip path attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return { clipPathUnits: this.clipPathUnits };
+  }
+}
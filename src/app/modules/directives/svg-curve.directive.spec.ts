@@ -0,0 +1,218 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import third-party libraries.
+ */
+import { PointArrayAlias } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgCurveDirective } from './svg-curve.directive';
+
+/**
+ * Import utilities.
+ */
+import { SvgCurveInterpolation } from '../util/curve.util';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-curve [(points)]="points" [interpolation]="interpolation" [tension]="tension" [closed]="closed"
+        fill="none" [borderSize]="2" [classes]="classes" [draggable]="true"
+        (clickEvent)="eventCalled()"
+        (doubleClickEvent)="eventCalled()"
+        (mouseOverEvent)="eventCalled()"
+        (mouseOutEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createCurve"></svg-curve>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createCurve = true;
+  public points: PointArrayAlias = [[0, 0], [10, 20], [20, 10], [30, 30]];
+  public interpolation: SvgCurveInterpolation = 'linear';
+  public tension = 0;
+  public closed = false;
+  public classes = ['line'];
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Curve Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgCurveDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should test that on destroying curve, the path element is removed', () => {
+    expect(html.querySelector('path')).not.toBeNull();
+
+    fixture.destroy();
+
+    expect(html.querySelector('path')).toBeNull();
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should draw straight lines between the points by default', () => {
+      const path = html.querySelector('path');
+
+      expect(path.getAttribute('d')).toEqual('M0 0L10 20L20 10L30 30 ');
+      expect(path.getAttribute('fill')).toEqual('none');
+      expect(path.getAttribute('stroke-width')).toEqual('2');
+      expect(path.getAttribute('class')).toEqual('line');
+    });
+
+    it('Should emit onInitialize on curve creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createCurve = false;
+
+      fixture.detectChanges();
+
+      app.createCurve = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click, dblclick, mouseover and mouseout event handlers', () => {
+      spyOn(app, 'eventCalled');
+
+      const path = html.querySelector('path');
+      ['click', 'dblclick', 'mouseover', 'mouseout'].forEach((type) => path.dispatchEvent(new MouseEvent(type)));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should keep monotone curve flat at the extremes', () => {
+      app.interpolation = 'monotone';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d'))
+        .toEqual('M0 0C3.333 10 6.667 20 10 20C13.333 20 16.667 10 20 10C23.333 10 26.667 20 30 30 ');
+    });
+
+    it('Should draw Catmull-Rom curve through the points and straighten it with the tension', () => {
+      app.interpolation = 'catmull-rom';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d'))
+        .toEqual('M0 0C1.667 3.333 6.667 18.333 10 20C13.333 21.667 16.667 8.333 20 10C23.333 11.667 28.333 26.667 30 30 ');
+
+      app.tension = 1;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toEqual('M0 0C0 0 10 20 10 20C10 20 20 10 20 10C20 10 30 30 30 30 ');
+    });
+
+    it('Should draw basis curve through the ends only', () => {
+      app.interpolation = 'basis';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d'))
+        .toEqual('M0 0L1.667 3.333C3.333 6.667 6.667 13.333 10 15C13.333 16.667 16.667 13.333 20 15C23.333 16.667 26.667 23.333 28.333 26.667L30 30 ');
+    });
+
+    it('Should draw steps before and after the points', () => {
+      app.interpolation = 'step-before';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toEqual('M0 0L0 20L10 20L10 10L20 10L20 30L30 30 ');
+
+      app.interpolation = 'step-after';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toEqual('M0 0L10 0L10 20L20 20L20 10L30 10L30 30 ');
+    });
+
+    it('Should close the shape', () => {
+      app.closed = true;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toEqual('M0 0L10 20L20 10L30 30Z ');
+
+      app.interpolation = 'catmull-rom';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toContain('C26.667 28.333 3.333 1.667 0 0Z');
+    });
+
+    it('Should move all points and update bound points after the drag', () => {
+      const path = html.querySelector('path');
+      const { left, top } = path.getBoundingClientRect();
+      path.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 5, clientY: top + 5, button: 0 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 10, clientY: top + 25 }));
+      document.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 10, clientY: top + 25 }));
+      fixture.detectChanges();
+
+      expect(html.querySelector('path').getAttribute('d')).toEqual('M5 20L15 40L25 30L35 50 ');
+      expect(app.points).toEqual([[5, 20], [15, 40], [25, 30], [35, 50]]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Path, ArrayXY, PointArray, PointArrayAlias } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgMarkerPosition, SvgMarkerPreset } from '../util/marker-preset.util';
+import { SvgCurveInterpolation, curvePath } from '../util/curve.util';
+
+@Directive({
+  selector: 'svg-curve'
+})
+export class SvgCurveDirective extends SvgBaseDirective {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: Path | null = null;
+
+  /**
+   * Input variables for the curve directive.
+   */
+  @Input() points: PointArrayAlias | null = null; // Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]].
+  @Input() interpolation: SvgCurveInterpolation = 'linear'; // Way of interpolating the curve between the points.
+  @Input() tension = 0; // Tension of the Catmull-Rom curve, 0 for the standard curve and 1 for straight lines.
+  @Input() closed = false; // Indicator if the end of the curve should be connected to its start.
+  @Input() markerStart: SvgMarkerPreset | string | null = null; // Marker on the first point, either a preset or 'url(#id)'.
+  @Input() markerMid: SvgMarkerPreset | string | null = null; // Marker on the vertices of the path between the first and the last one.
+  @Input() markerEnd: SvgMarkerPreset | string | null = null; // Marker on the last point, either a preset or 'url(#id)'.
+  @Output() pointsChange: EventEmitter<PointArrayAlias | null> = new EventEmitter(); // Emits new points after drag.
+
+  /**
+   * Create SVG Curve directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Update curve object within the SVG container.
+   */
+  override updateShape(): void {
+    if (!this._shape || !this.points) {
+      return;
+    }
+    this._shape.plot(this.getPath()); // Update the curve object
+    this.setPaint(); // Set the fill and border for the curve
+
+    // Add classes to the curve
+    this.addRemoveClasses(this.classes);
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create curve object within the SVG container.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    if (!container || !this.points) {
+      return;
+    }
+    this._shape = container
+      .path(this.getPath()) // Create the path, which draws the curve
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    // Set the fill and border for the curve
+    this.setPaint();
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the curve
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the curve element
+    this.onInitialize.emit(this._shape);
+  }
+
+  /**
+   * Retrieves markers, which are drawn on the vertices of the curve.
+   * @returns Marker input values for each of the marker positions.
+   */
+  protected override getMarkers(): Partial<Record<SvgMarkerPosition, string | null>> {
+    return { start: this.markerStart, mid: this.markerMid, end: this.markerEnd };
+  }
+
+  /**
+   * Moves the curve while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.points = this.getPoints().map(([x, y]): ArrayXY => [x + dx, y + dy]);
+  }
+
+  /**
+   * Emits new points of the curve after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.pointsChange.emit(this.points);
+  }
+
+  /**
+   * Retrieves path data of the curve, interpolated between the points.
+   * @returns Path data.
+   */
+  private getPath(): string {
+    return curvePath(this.getPoints(), this.interpolation, Number(this.tension), this.closed);
+  }
+
+  /**
+   * Retrieves points of the curve, which can be provided in any of the formats supported by the polyline.
+   * @returns List of the points in format [[x, y], [x1, y1], ..., [xn, yn]].
+   */
+  private getPoints(): ArrayXY[] {
+    return this.points ? Array.from(new PointArray(this.points)) : [];
+  }
+}
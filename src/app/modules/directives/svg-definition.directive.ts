@@ -0,0 +1,101 @@
+/**
+ * Import Angular libraries.
+ */
+import { AfterViewChecked, Directive, EventEmitter, OnChanges, OnDestroy, Output } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, Element } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+
+@Directive()
+export abstract class SvgDefinitionDirective<T extends Element> implements AfterViewChecked, OnChanges, OnDestroy {
+  @Output() public onInitialize: EventEmitter<T> = new EventEmitter();
+
+  protected _definition: T | null = null;
+
+  /**
+   * Create SVG Definition directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    protected _svgContainer: SvgContainerComponent
+  ) {}
+
+  /**
+   * Is called when changes are made to the definition inputs.
+   */
+  ngOnChanges(): void {
+    this.setAttributes();
+  }
+
+  /**
+   * Creates the definition, once the container is created.
+   */
+  ngAfterViewChecked(): void {
+    const container = this._svgContainer.getContainer();
+    if (container && !this._definition) {
+      this._definition = this.createDefinition(container);
+      this.setAttributes();
+      this.updateContents();
+
+      // Let's output the definition element
+      this.onInitialize.emit(this._definition);
+    }
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the definition.
+   */
+  ngOnDestroy(): void {
+    this._definition?.remove();
+  }
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific definition.
+   * User must implement which element is created, usually within the defs of the container.
+   * @param container - Root container of the svg.
+   * @returns Created element.
+   */
+  protected abstract createDefinition(container: Container): T;
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific definition.
+   * User must implement which input holds the id, by which shapes reference the definition.
+   * @returns Id of the definition, or empty string to keep the generated id.
+   */
+  protected abstract getId(): string;
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific definition.
+   * User must implement which attributes are set from the inputs.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected abstract getAttributes(): { [attribute: string]: number | string | null };
+
+  /**
+   * This method is meant to be overridden by child classes, which build their contents from registered directives or presets.
+   * User must implement how contents are drawn, once the definition is created.
+   */
+  protected updateContents(): void {}
+
+  /**
+   * Sets id and other attributes of the definition.
+   */
+  private setAttributes(): void {
+    const definition = this._definition;
+    if (!definition) {
+      return;
+    }
+    const id = this.getId();
+    if (id) {
+      definition.id(id);
+    }
+    definition.attr(this.getAttributes());
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, ElementRef } from '@angular/core';
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
@@ -13,6 +13,8 @@ import { Ellipse } from '@svgdotjs/svg.js';
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgBox } from '../models';
 
 @Directive({
   selector: 'svg-ellipse'
@@ -22,6 +24,7 @@ export class SvgEllipseDirective extends SvgBaseDirective {
    * Globally used variables within the directive.
    */
   override _shape: Ellipse | null = null;
+  override readonly resizable = true;
 
   /**
    * Import variables for the ellipse directive.
@@ -30,17 +33,23 @@ export class SvgEllipseDirective extends SvgBaseDirective {
   @Input() y = 0; // Starting point on y-axis.
   @Input() height = 0; // Height of the ellipse.
   @Input() width = 0; // Width of the ellipse.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the ellipse has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the ellipse has been dragged.
+  @Output() widthChange: EventEmitter<number> = new EventEmitter(); // Emits new width, after the ellipse has been resized.
+  @Output() heightChange: EventEmitter<number> = new EventEmitter(); // Emits new height, after the ellipse has been resized.
 
   /**
    * Create SVG Ellipse directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     override _svgContainer: SvgContainerComponent,
-    override _elRef: ElementRef
+    override _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -54,7 +63,7 @@ export class SvgEllipseDirective extends SvgBaseDirective {
    * Create ellipse object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
@@ -75,12 +84,53 @@ export class SvgEllipseDirective extends SvgBaseDirective {
       return;
     }
     this._shape.size(this.width, this.height) // Update the width and height
-      .fill(this.color) // Update the color
       .attr('cx', this.x + this.width / 2) // Set x position
       .attr('cy', this.y + this.height / 2); // Set y position
 
+    // Update the fill, border and opacity
+    this.setPaint();
+
     // Let's set element in a correct position
     this.setCorrectPosition();
     this.addRemoveClasses(this.classes);
   }
+
+  /**
+   * Moves the ellipse while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the ellipse after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
+
+  /**
+   * Changes position and size of the ellipse while it is being resized.
+   * @param box - New bounding box of the ellipse.
+   */
+  protected override setBox(box: SvgBox): void {
+    this.x = box.x;
+    this.y = box.y;
+    this.width = box.width;
+    this.height = box.height;
+  }
+
+  /**
+   * Emits new position and size of the ellipse after it has been resized.
+   */
+  protected override emitBoxChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+    this.widthChange.emit(this.width);
+    this.heightChange.emit(this.height);
+  }
 }
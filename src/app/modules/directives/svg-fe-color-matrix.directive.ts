@@ -0,0 +1,50 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-color-matrix'
+})
+export class SvgFeColorMatrixDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the color matrix primitive.
+   */
+  @Input() type: 'matrix' | 'saturate' | 'hueRotate' | 'luminanceToAlpha' = 'matrix'; // Type of the color transformation.
+  @Input() values: number[] | number | null = null; // 4x5 matrix for 'matrix' type, otherwise a single value.
+
+  /**
+   * Create SVG Color Matrix filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feColorMatrix' {
+    return 'feColorMatrix';
+  }
+
+  /**
+   * Retrieves color transformation attributes of the primitive.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return { type: this.type, values: Array.isArray(this.values) ? this.values.join(' ') : this.values };
+  }
+}
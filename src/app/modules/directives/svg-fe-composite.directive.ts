@@ -0,0 +1,54 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-composite'
+})
+export class SvgFeCompositeDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the composite primitive.
+   */
+  @Input() in2: string | null = null; // Second input of the primitive, which the first input is combined with.
+  @Input() operator: 'over' | 'in' | 'out' | 'atop' | 'xor' | 'arithmetic' | null = null; // Compositing operation.
+  @Input() k1: number | null = null; // Coefficient of the arithmetic operator, multiplied by both inputs.
+  @Input() k2: number | null = null; // Coefficient of the arithmetic operator, multiplied by the first input.
+  @Input() k3: number | null = null; // Coefficient of the arithmetic operator, multiplied by the second input.
+  @Input() k4: number | null = null; // Constant of the arithmetic operator.
+
+  /**
+   * Create SVG Composite filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feComposite' {
+    return 'feComposite';
+  }
+
+  /**
+   * Retrieves compositing attributes of the primitive.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return { in2: this.in2, operator: this.operator, k1: this.k1, k2: this.k2, k3: this.k3, k4: this.k4 };
+  }
+}
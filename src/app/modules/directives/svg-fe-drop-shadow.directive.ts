@@ -0,0 +1,59 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-drop-shadow'
+})
+export class SvgFeDropShadowDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the drop shadow primitive.
+   */
+  @Input() dx = 2; // Offset of the shadow on x-axis.
+  @Input() dy = 2; // Offset of the shadow on y-axis.
+  @Input() stdDeviation: number | string = 2; // Standard deviation of the shadow blur.
+  @Input() floodColor = '#000'; // Color of the shadow.
+  @Input() floodOpacity: number | null = null; // Opacity of the shadow, between 0 and 1.
+
+  /**
+   * Create SVG Drop Shadow filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feDropShadow' {
+    return 'feDropShadow';
+  }
+
+  /**
+   * Retrieves shadow attributes of the primitive.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return {
+      dx: this.dx,
+      dy: this.dy,
+      stdDeviation: this.stdDeviation,
+      'flood-color': this.floodColor,
+      'flood-opacity': this.floodOpacity
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-flood'
+})
+export class SvgFeFloodDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the flood primitive.
+   */
+  @Input() floodColor = '#000'; // Color, which fills the filter region.
+  @Input() floodOpacity: number | null = null; // Opacity of the color, between 0 and 1.
+
+  /**
+   * Create SVG Flood filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feFlood' {
+    return 'feFlood';
+  }
+
+  /**
+   * Retrieves flood attributes of the primitive.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return { 'flood-color': this.floodColor, 'flood-opacity': this.floodOpacity };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-gaussian-blur'
+})
+export class SvgFeGaussianBlurDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the gaussian blur primitive.
+   */
+  @Input() stdDeviation: number | string = 0; // Standard deviation of the blur, or two values for x and y axis, e.g. '4 0'.
+  @Input() edgeMode: 'duplicate' | 'wrap' | 'none' | null = null; // How the input is extended beyond its edges.
+
+  /**
+   * Create SVG Gaussian Blur filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feGaussianBlur' {
+    return 'feGaussianBlur';
+  }
+
+  /**
+   * Retrieves blur attributes of the primitive.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return { stdDeviation: this.stdDeviation, edgeMode: this.edgeMode };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Element } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes, createFilterElement } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-merge'
+})
+export class SvgFeMergeDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the merge primitive.
+   */
+  @Input() inputs: string[] = []; // Inputs, which are layered on top of each other, starting from the bottom one.
+
+  /**
+   * Create SVG Merge filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Creates element of the primitive together with a merge node for each of the inputs.
+   * @returns Primitive element.
+   */
+  override createElement(): Element {
+    const merge = super.createElement();
+    this.inputs.forEach((input) => merge.add(createFilterElement('feMergeNode', { in: input })));
+
+    return merge;
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feMerge' {
+    return 'feMerge';
+  }
+
+  /**
+   * Retrieves attributes of the primitive, which has no attributes besides the result.
+   * @returns Empty object.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return {};
+  }
+}
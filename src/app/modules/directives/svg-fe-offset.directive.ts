@@ -0,0 +1,50 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { SvgFilterAttributes } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-fe-offset'
+})
+export class SvgFeOffsetDirective extends SvgFilterPrimitiveDirective {
+  /**
+   * Input variables for the offset primitive.
+   */
+  @Input() dx = 0; // Offset of the input on x-axis.
+  @Input() dy = 0; // Offset of the input on y-axis.
+
+  /**
+   * Create SVG Offset filter primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    _filter: SvgFilterDirective,
+    _elRef: ElementRef
+  ) {
+    super(_filter, _elRef);
+  }
+
+  /**
+   * Retrieves type of the primitive.
+   * @returns Tag name of the primitive.
+   */
+  protected getType(): 'feOffset' {
+    return 'feOffset';
+  }
+
+  /**
+   * Retrieves offset attributes of the primitive.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected getAttributes(): SvgFilterAttributes {
+    return { dx: this.dx, dy: this.dy };
+  }
+}
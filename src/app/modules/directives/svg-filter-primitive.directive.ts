@@ -0,0 +1,89 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, ElementRef, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Element } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFilterAttributes, createFilterElement } from '../util/filter.util';
+
+@Directive()
+export abstract class SvgFilterPrimitiveDirective implements OnInit, OnChanges, OnDestroy {
+  /**
+   * Input variables shared by all the filter primitives.
+   */
+  @Input() in: string | null = null; // Input of the primitive, e.g. 'SourceGraphic' or result of another primitive.
+  @Input() result: string | null = null; // Name of the primitive output, which other primitives can use as their input.
+
+  /**
+   * Create SVG Filter Primitive directive.
+   * @param _filter - Parent filter directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    protected _filter: SvgFilterDirective,
+    private _elRef: ElementRef
+  ) {}
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific primitive.
+   * User must implement which type of primitive is created.
+   * @returns Tag name of the primitive, e.g. 'feGaussianBlur'.
+   */
+  protected abstract getType(): string;
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific primitive.
+   * User must implement which attributes the primitive has.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected abstract getAttributes(): SvgFilterAttributes;
+
+  /**
+   * Creates element of the primitive, which is added to the filter.
+   * @returns Primitive element.
+   */
+  createElement(): Element {
+    return createFilterElement(this.getType(), { in: this.in, result: this.result, ...this.getAttributes() });
+  }
+
+  /**
+   * Retrieves host element of the directive, used to keep the primitives in the template order.
+   * @returns Host DOM element.
+   */
+  getHostElement(): HTMLElement {
+    return this._elRef.nativeElement;
+  }
+
+  /**
+   * Adds the primitive to the parent filter.
+   */
+  ngOnInit(): void {
+    this._filter.addPrimitive(this);
+  }
+
+  /**
+   * Updates the parent filter, when primitive changes.
+   * @param changes - Angular Simple Changes object containing all the changes.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    const firstChange = Object.values(changes).every((change) => change.firstChange);
+    if (!firstChange) {
+      this._filter.updatePrimitives();
+    }
+  }
+
+  /**
+   * Removes the primitive from the parent filter.
+   */
+  ngOnDestroy(): void {
+    this._filter.removePrimitive(this);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgFilterDirective } from './svg-filter.directive';
+import { SvgFeGaussianBlurDirective } from './svg-fe-gaussian-blur.directive';
+import { SvgFeOffsetDirective } from './svg-fe-offset.directive';
+import { SvgFeFloodDirective } from './svg-fe-flood.directive';
+import { SvgFeCompositeDirective } from './svg-fe-composite.directive';
+import { SvgFeMergeDirective } from './svg-fe-merge.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+/**
+ * Import custom models.
+ */
+import { SvgGlow, SvgShadow } from '../models';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-filter filterId="test-glow" [width]="width"
+        (onInitialize)="eventCalled()"
+        *ngIf="createFilter">
+        <svg-fe-gaussian-blur in="SourceAlpha" [stdDeviation]="stdDeviation" result="blurred"></svg-fe-gaussian-blur>
+        <svg-fe-offset [dx]="2" [dy]="2" result="offset" *ngIf="createOffset"></svg-fe-offset>
+        <svg-fe-flood floodColor="#0ff" [floodOpacity]="0.5" result="color"></svg-fe-flood>
+        <svg-fe-composite in="color" in2="blurred" operator="in" result="glow"></svg-fe-composite>
+        <svg-fe-merge [inputs]="['glow', 'SourceGraphic']"></svg-fe-merge>
+      </svg-filter>
+      <svg-rect [width]="10" [height]="10" [filter]="filter" [blur]="blur" [shadow]="shadow" [glow]="glow"
+        *ngIf="createRect"></svg-rect>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createFilter = true;
+  public createOffset = false;
+  public createRect = true;
+  public width: string | null = null;
+  public stdDeviation = 3;
+  public filter: string | null = 'url(#test-glow)';
+  public blur: number | null = null;
+  public shadow: SvgShadow | null = null;
+  public glow: SvgGlow | null = null;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Filter Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgFilterDirective,
+        SvgFeGaussianBlurDirective,
+        SvgFeOffsetDirective,
+        SvgFeFloodDirective,
+        SvgFeCompositeDirective,
+        SvgFeMergeDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the filter with its primitives in defs', () => {
+    const filter = html.querySelector('defs filter');
+    const primitives = Array.from(filter.children);
+
+    expect(filter.getAttribute('id')).toEqual('test-glow');
+    expect(primitives.map((primitive) => primitive.tagName)).toEqual(['feGaussianBlur', 'feFlood', 'feComposite', 'feMerge']);
+    expect(primitives[0].getAttribute('in')).toEqual('SourceAlpha');
+    expect(primitives[0].getAttribute('stdDeviation')).toEqual('3');
+    expect(primitives[1].getAttribute('flood-color')).toEqual('#00ffff');
+    expect(primitives[2].getAttribute('in2')).toEqual('blurred');
+    expect(primitives[2].getAttribute('operator')).toEqual('in');
+  });
+
+  it('Should create merge node for each of the merge inputs', () => {
+    const nodes = html.querySelectorAll('feMerge feMergeNode');
+
+    expect(nodes.length).toEqual(2);
+    expect(nodes[0].getAttribute('in')).toEqual('glow');
+    expect(nodes[1].getAttribute('in')).toEqual('SourceGraphic');
+  });
+
+  it('Should let shapes reference the filter by id', () => {
+    expect(html.querySelector('svg > rect:last-of-type').getAttribute('filter')).toEqual('url(#test-glow)');
+  });
+
+  it('Should emit onInitialize on filter creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createFilter = false;
+
+    fixture.detectChanges();
+
+    app.createFilter = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the filter from defs on destroy', () => {
+    app.createFilter = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('filter')).toBeNull();
+  });
+
+  it('Should update filter attributes and primitives', () => {
+    app.width = '150%';
+    app.stdDeviation = 5;
+
+    fixture.detectChanges();
+
+    const filter = html.querySelector('filter');
+    expect(filter.getAttribute('width')).toEqual('150%');
+    expect(filter.querySelector('feGaussianBlur').getAttribute('stdDeviation')).toEqual('5');
+  });
+
+  it('Should add and remove primitives in the template order', () => {
+    app.createOffset = true;
+    fixture.detectChanges();
+
+    expect(html.querySelector('filter').children[1].tagName).toEqual('feOffset');
+
+    app.createOffset = false;
+    fixture.detectChanges();
+
+    expect(html.querySelector('feOffset')).toBeNull();
+  });
+
+  describe('Should test blur, shadow and glow presets', () => {
+    beforeEach(() => {
+      app.filter = null;
+      fixture.detectChanges();
+    });
+
+    it('Should create filter for the shape with blur and shadow', () => {
+      app.blur = 2;
+      app.shadow = { dx: 0, color: '#f00' };
+
+      fixture.detectChanges();
+
+      const filters = html.querySelectorAll('filter');
+      const preset = filters[filters.length - 1];
+      expect(html.querySelector('svg > rect:last-of-type').getAttribute('filter')).toEqual(`url(#${preset.id})`);
+      expect(preset.querySelector('feGaussianBlur').getAttribute('stdDeviation')).toEqual('2');
+      expect(preset.querySelector('feDropShadow').getAttribute('dx')).toEqual('0');
+      expect(preset.querySelector('feDropShadow').getAttribute('dy')).toEqual('2');
+      expect(preset.querySelector('feDropShadow').getAttribute('flood-color')).toEqual('#ff0000');
+    });
+
+    it('Should create filter for the shape with glow merged under the shape', () => {
+      app.glow = { blur: 5, color: '#ff0' };
+
+      fixture.detectChanges();
+
+      const filters = html.querySelectorAll('filter');
+      const preset = filters[filters.length - 1];
+      const blur = preset.querySelector('feGaussianBlur');
+      const flood = preset.querySelector('feFlood');
+      const composite = preset.querySelector('feComposite');
+      const mergeNodes = preset.querySelectorAll('feMerge > feMergeNode');
+      expect(html.querySelector('svg > rect:last-of-type').getAttribute('filter')).toEqual(`url(#${preset.id})`);
+      expect(blur.getAttribute('in')).toEqual('SourceAlpha');
+      expect(blur.getAttribute('stdDeviation')).toEqual('5');
+      expect(flood.getAttribute('flood-color')).toEqual('#ffff00');
+      expect(flood.getAttribute('flood-opacity')).toEqual('0.8');
+      expect(composite.getAttribute('in')).toEqual(flood.getAttribute('result'));
+      expect(composite.getAttribute('in2')).toEqual(blur.getAttribute('result'));
+      expect(composite.getAttribute('operator')).toEqual('in');
+      expect(Array.from(mergeNodes).map((node) => node.getAttribute('in'))).toEqual([composite.getAttribute('result'), 'SourceGraphic']);
+    });
+
+    it('Should merge glow under the blurred shape, when both presets are set', () => {
+      app.blur = 2;
+      app.glow = {};
+
+      fixture.detectChanges();
+
+      const filters = html.querySelectorAll('filter');
+      const preset = filters[filters.length - 1];
+      const shapeBlur = preset.querySelector('feGaussianBlur');
+      expect(shapeBlur.getAttribute('in')).toEqual('SourceGraphic');
+      expect(preset.querySelector('feMerge > feMergeNode:last-child').getAttribute('in')).toEqual(shapeBlur.getAttribute('result'));
+    });
+
+    it('Should prefer filter reference over the presets and remove unused preset filter', () => {
+      app.shadow = {};
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('filter').length).toEqual(2);
+
+      app.filter = 'url(#test-glow)';
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('filter').length).toEqual(1);
+      expect(html.querySelector('svg > rect:last-of-type').getAttribute('filter')).toEqual('url(#test-glow)');
+    });
+
+    it('Should remove filter attribute, when presets are reset to null', () => {
+      app.blur = 4;
+      fixture.detectChanges();
+
+      app.blur = null;
+      fixture.detectChanges();
+
+      expect(html.querySelector('svg > rect:last-of-type').getAttribute('filter')).toBeNull();
+      expect(html.querySelectorAll('filter').length).toEqual(1);
+    });
+
+    it('Should remove preset filter from defs on destroy', () => {
+      app.blur = 4;
+      fixture.detectChanges();
+
+      app.createRect = false;
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('filter').length).toEqual(1);
+    });
+  });
+});
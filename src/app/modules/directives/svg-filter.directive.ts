@@ -0,0 +1,119 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, Element } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgFilterPrimitiveDirective } from './svg-filter-primitive.directive';
+import { createFilterElement } from '../util/filter.util';
+
+@Directive({
+  selector: 'svg-filter'
+})
+export class SvgFilterDirective extends SvgDefinitionDirective<Element> {
+  /**
+   * Input variables for the filter directive.
+   */
+  @Input() filterId = ''; // Id of the filter, which shapes use to reference it, e.g. filter="url(#id)".
+  @Input() x: number | string | null = null; // Starting point of the filter region on x-axis.
+  @Input() y: number | string | null = null; // Starting point of the filter region on y-axis.
+  @Input() width: number | string | null = null; // Width of the filter region.
+  @Input() height: number | string | null = null; // Height of the filter region.
+  @Input() filterUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of x, y, width and height.
+  @Input() primitiveUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of the primitive attributes.
+
+  private _primitives: SvgFilterPrimitiveDirective[] = []; // Primitives of the filter, registered by the nested directives.
+
+  /**
+   * Create SVG Filter directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Adds primitive to the filter.
+   * @param primitive - Filter primitive directive object instance.
+   */
+  addPrimitive(primitive: SvgFilterPrimitiveDirective): void {
+    this._primitives.push(primitive);
+    this.updatePrimitives();
+  }
+
+  /**
+   * Removes primitive from the filter.
+   * @param primitive - Filter primitive directive object instance.
+   */
+  removePrimitive(primitive: SvgFilterPrimitiveDirective): void {
+    this._primitives = this._primitives.filter((added) => added !== primitive);
+    this.updatePrimitives();
+  }
+
+  /**
+   * Recreates primitive elements of the filter in the order of the primitive directives.
+   */
+  updatePrimitives(): void {
+    const filter = this._definition;
+    if (!filter) {
+      return;
+    }
+    // Let's keep the order of the primitives the same as in the template, since they are applied one after another
+    const primitives = [...this._primitives].sort((a, b) =>
+      a.getHostElement().compareDocumentPosition(b.getHostElement()) === Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+
+    filter.clear();
+    primitives.forEach((primitive) => filter.add(primitive.createElement()));
+  }
+
+  /**
+   * Creates the filter in defs.
+   * @param container - Root container of the svg.
+   * @returns Filter element.
+   */
+  protected override createDefinition(container: Container): Element {
+    return createFilterElement('filter').addTo(container.defs());
+  }
+
+  /**
+   * Retrieves id of the filter.
+   * @returns Id of the filter.
+   */
+  protected override getId(): string {
+    return this.filterId;
+  }
+
+  /**
+   * Retrieves region and units of the filter.
+   * @returns Filter attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      x: this.x,
+      y: this.y,
+      width: this.width,
+      height: this.height,
+      filterUnits: this.filterUnits,
+      primitiveUnits: this.primitiveUnits
+    };
+  }
+
+  /**
+   * Adds primitives, which were registered before the filter was created.
+   */
+  protected override updateContents(): void {
+    this.updatePrimitives();
+  }
+}
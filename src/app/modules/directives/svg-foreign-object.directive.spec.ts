@@ -0,0 +1,197 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgForeignObjectDirective } from './svg-foreign-object.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id" [viewBox]="viewBox">
+      <svg-rect [width]="10" [height]="10"></svg-rect>
+      <svg-foreign-object [x]="x" [y]="y" [width]="width" [height]="height" [classes]="classes"
+        (clickEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createForeignObject">
+        <div class="tooltip">{{ label }}</div>
+        <input class="field" *ngIf="showField">
+      </svg-foreign-object>
+      <svg-rect [x]="20" [width]="10" [height]="10"></svg-rect>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createForeignObject = true;
+  public showField = false;
+  public label = 'Tooltip';
+  public x = 5;
+  public y = 10;
+  public width = 120;
+  public height = 40;
+  public classes = ['tooltip-host'];
+  public viewBox = [0, 0, 200, 100];
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Foreign Object Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgForeignObjectDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should test that on destroying foreign object, the foreign object element is removed', () => {
+    expect(html.querySelector('foreignObject')).not.toBeNull();
+
+    app.createForeignObject = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('foreignObject')).toBeNull();
+    expect(html.querySelector('.tooltip')).toBeNull();
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should set position and size of the foreign object', () => {
+      const foreignObject = html.querySelector('foreignObject');
+
+      expect(foreignObject.getAttribute('x')).toEqual('5');
+      expect(foreignObject.getAttribute('y')).toEqual('10');
+      expect(foreignObject.getAttribute('width')).toEqual('120');
+      expect(foreignObject.getAttribute('height')).toEqual('40');
+      expect(foreignObject.getAttribute('fill')).toBeNull();
+      expect(foreignObject.getAttribute('class')).toEqual('tooltip-host');
+    });
+
+    it('Should move the projected content into the foreign object', () => {
+      expect(html.querySelector('foreignObject .tooltip').textContent).toEqual('Tooltip');
+      expect(html.querySelector('svg-foreign-object').children.length).toEqual(0);
+    });
+
+    it('Should keep the foreign object between the shapes in the template order', () => {
+      const elements = Array.from(html.querySelector('svg').children).filter((element) => element.tagName !== 'defs');
+
+      expect(elements.map((element) => element.tagName)).toEqual(['rect', 'foreignObject', 'rect']);
+    });
+
+    it('Should emit onInitialize on foreign object creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createForeignObject = false;
+
+      fixture.detectChanges();
+
+      app.createForeignObject = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click event handler', () => {
+      spyOn(app, 'eventCalled');
+
+      html.querySelector('.tooltip').dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should update position and size of the foreign object', () => {
+      app.x = 15;
+      app.y = 25;
+      app.width = 80;
+      app.height = 30;
+
+      fixture.detectChanges();
+
+      const foreignObject = html.querySelector('foreignObject');
+      expect(foreignObject.getAttribute('x')).toEqual('15');
+      expect(foreignObject.getAttribute('y')).toEqual('25');
+      expect(foreignObject.getAttribute('width')).toEqual('80');
+      expect(foreignObject.getAttribute('height')).toEqual('30');
+    });
+
+    it('Should keep updating the projected content inside the foreign object', () => {
+      app.label = 'Updated tooltip';
+      app.showField = true;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('foreignObject .tooltip').textContent).toEqual('Updated tooltip');
+      expect(html.querySelector('foreignObject .field')).not.toBeNull();
+
+      app.showField = false;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('.field')).toBeNull();
+    });
+
+    it('Should scale the foreign object together with the viewbox', () => {
+      const before = html.querySelector('foreignObject').getBoundingClientRect().width;
+
+      app.viewBox = [0, 0, 100, 50];
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('foreignObject').getBoundingClientRect().width).toBeCloseTo(before * 2, 0);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Import Angular libraries.
+ */
+import {
+  Directive,
+  Input,
+  ElementRef,
+  Optional,
+  EventEmitter,
+  Output
+} from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { ForeignObject } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgBox } from '../models';
+
+@Directive({
+  selector: 'svg-foreign-object'
+})
+export class SvgForeignObjectDirective extends SvgBaseDirective<ForeignObject> {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: ForeignObject | null = null;
+  override readonly resizable = true;
+
+  /**
+   * Import variables for the foreign object directive.
+   */
+  @Input() x = 0; // Starting point on x-axis.
+  @Input() y = 0; // Starting point on y-axis.
+  @Input() width = 100; // Width of the foreign object.
+  @Input() height = 100; // Height of the foreign object.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the foreign object has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the foreign object has been dragged.
+  @Output() widthChange: EventEmitter<number> = new EventEmitter(); // Emits new width, after the foreign object has been resized.
+  @Output() heightChange: EventEmitter<number> = new EventEmitter(); // Emits new height, after the foreign object has been resized.
+
+  /**
+   * Create SVG Foreign Object directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Update foreign object within the SVG container.
+   */
+  override updateShape(): void {
+    this.setAttributes();
+    this.addRemoveClasses(this.classes);
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create foreign object within the SVG container and move the projected content into it.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    if (!container) {
+      return;
+    }
+    this._shape = container.foreignObject(this.width, this.height); // Set width and height of the foreign object
+    this.setAttributes();
+    this._shape
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    // Angular keeps updating the content after it is moved, including views inserted next to the moved anchors
+    const host: HTMLElement = this._elRef.nativeElement;
+    while (host.firstChild) {
+      this._shape.node.appendChild(host.firstChild);
+    }
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the foreign object
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the foreign object element
+    this.onInitialize.emit(this._shape);
+  }
+
+  /**
+   * Retrieves fill color of the foreign object, which is never filled.
+   * @returns Null, so that fill attribute is not set.
+   */
+  protected override getFill(): null {
+    return null;
+  }
+
+  /**
+   * Sets position and size of the foreign object.
+   */
+  private setAttributes(): void {
+    const foreignObject = this._shape;
+    if (!foreignObject) {
+      return;
+    }
+    foreignObject.attr({
+      x: this.x,
+      y: this.y,
+      width: this.width,
+      height: this.height
+    });
+
+    // Update the opacity, clipping, masking and filters
+    this.setPaint();
+  }
+
+  /**
+   * Moves the foreign object while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the foreign object after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
+
+  /**
+   * Changes position and size of the foreign object while it is being resized.
+   * @param box - New bounding box of the foreign object.
+   */
+  protected override setBox(box: SvgBox): void {
+    this.x = box.x;
+    this.y = box.y;
+    this.width = box.width;
+    this.height = box.height;
+  }
+
+  /**
+   * Emits new position and size of the foreign object after it has been resized.
+   */
+  protected override emitBoxChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+    this.widthChange.emit(this.width);
+    this.heightChange.emit(this.height);
+  }
+}
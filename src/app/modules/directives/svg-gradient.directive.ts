@@ -0,0 +1,124 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, Gradient, Stop } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgStopDirective } from './svg-stop.directive';
+
+@Directive()
+export abstract class SvgGradientDirective extends SvgDefinitionDirective<Gradient> {
+  /**
+   * Input variables shared by all the gradients.
+   */
+  @Input() gradientId = ''; // Id of the gradient, which shapes use to reference it, e.g. fill="url(#id)".
+  @Input() gradientUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of the gradient attributes.
+  @Input() gradientTransform: string | null = null; // Transformation applied to the gradient, e.g. 'rotate(45)'.
+  @Input() spreadMethod: 'pad' | 'reflect' | 'repeat' | null = null; // How gradient fills the area outside of its bounds.
+
+  private _stops: SvgStopDirective[] = []; // Stops of the gradient, registered by the nested stop directives.
+
+  /**
+   * Create SVG Gradient directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific gradient.
+   * User must implement which type of gradient is created.
+   * @returns Type of the gradient.
+   */
+  protected abstract getType(): 'linear' | 'radial';
+
+  /**
+   * This method is meant to be overridden by child classes to create the specific gradient.
+   * User must implement which attributes define the geometry of the gradient.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  protected abstract getGeometry(): { [attribute: string]: number | string | null };
+
+  /**
+   * Adds stop to the gradient.
+   * @param stop - Stop directive object instance.
+   */
+  addStop(stop: SvgStopDirective): void {
+    this._stops.push(stop);
+    this.updateStops();
+  }
+
+  /**
+   * Removes stop from the gradient.
+   * @param stop - Stop directive object instance.
+   */
+  removeStop(stop: SvgStopDirective): void {
+    this._stops = this._stops.filter((added) => added !== stop);
+    this.updateStops();
+  }
+
+  /**
+   * Recreates stop elements of the gradient in the order of the stop directives.
+   */
+  updateStops(): void {
+    const gradient = this._definition;
+    if (!gradient) {
+      return;
+    }
+    // Let's keep the order of the stops the same as in the template
+    const stops = [...this._stops].sort((a, b) =>
+      a.getHostElement().compareDocumentPosition(b.getHostElement()) === Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+
+    gradient.update(() => stops.forEach((stop) => gradient.add(new Stop().update(stop.getProperties()))));
+  }
+
+  /**
+   * Creates the gradient of the specific type in defs.
+   * @param container - Root container of the svg.
+   * @returns Gradient instance.
+   */
+  protected override createDefinition(container: Container): Gradient {
+    return container.defs().gradient(this.getType());
+  }
+
+  /**
+   * Retrieves id of the gradient.
+   * @returns Id of the gradient.
+   */
+  protected override getId(): string {
+    return this.gradientId;
+  }
+
+  /**
+   * Retrieves geometry and other attributes of the gradient.
+   * @returns Gradient attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      ...this.getGeometry(),
+      gradientUnits: this.gradientUnits,
+      gradientTransform: this.gradientTransform,
+      spreadMethod: this.spreadMethod
+    };
+  }
+
+  /**
+   * Adds stops, which were registered before the gradient was created.
+   */
+  protected override updateContents(): void {
+    this.updateStops();
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgGroupDirective } from './svg-group.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+import { SvgCircleDirective } from './svg-circle.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-rect [width]="10" [height]="10"></svg-rect>
+      <svg-group [transform]="transform" [color]="color" [classes]="classes"
+        (clickEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createGroup">
+        <svg-circle [diameter]="10" *ngIf="createCircle"></svg-circle>
+        <svg-rect [width]="20" [height]="20"></svg-rect>
+        <svg-group>
+          <svg-rect [width]="30" [height]="30"></svg-rect>
+        </svg-group>
+      </svg-group>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createGroup = true;
+  public createCircle = true;
+  public transform: string | object = 'translate(10, 20)';
+  public color = 'red';
+  public classes = ['group-class'];
+  @ViewChild(SvgGroupDirective) public groupDirective: SvgGroupDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+// Let's mock component with the group, which is transformed around its nested shapes
+@Component({
+  template: `
+    <svg-container containerId="rotated-id">
+      <svg-group [rotate]="90">
+        <svg-rect [x]="10" [y]="10" [width]="width" [height]="10"></svg-rect>
+      </svg-group>
+    </svg-container>
+  `
+})
+class RotatedGroupTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public width = 20;
+  @ViewChild(SvgGroupDirective) public groupDirective: SvgGroupDirective;
+}
+
+// Let's mock component with the draggable group, which keeps its translation between the drags
+@Component({
+  template: `
+    <svg-container containerId="drag-id">
+      <svg-group [draggable]="true" [snapToGrid]="true" [dragBounds]="{ x: 0, y: 0, width: 50, height: 50 }"
+        [translateX]="translateX" [translateY]="translateY"
+        (transformChange)="translateX = $event.translateX; translateY = $event.translateY">
+        <svg-rect [width]="20" [height]="20"></svg-rect>
+      </svg-group>
+    </svg-container>
+  `
+})
+class DragTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public translateX = 5;
+  public translateY = 0;
+}
+
+describe('SVG Group Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        RotatedGroupTestComponent,
+        DragTestComponent,
+        SvgGroupDirective,
+        SvgRectDirective,
+        SvgCircleDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should test that on destroying group, the group element and nested elements are removed', () => {
+    expect(html.querySelector('g')).not.toBeNull();
+
+    fixture.destroy();
+
+    expect(html.querySelector('g')).toBeNull();
+    expect(html.querySelector('circle')).toBeNull();
+  });
+
+  describe('createGroup fn tests', () => {
+    it('Should add nested elements to the group instead of the root container', () => {
+      const group = html.querySelector('svg > g');
+
+      expect(group).not.toBeNull();
+      expect(group.querySelector(':scope > circle')).not.toBeNull();
+      expect(group.querySelector(':scope > rect').getAttribute('width')).toEqual('20');
+      expect(group.querySelector(':scope > g > rect').getAttribute('width')).toEqual('30');
+      expect(html.querySelectorAll('svg > rect').length).toEqual(1);
+    });
+
+    it('Should set custom attributes on the group', () => {
+      const group = html.querySelector('svg > g');
+
+      expect(group.getAttribute('transform')).toEqual('translate(10, 20)');
+      expect(group.getAttribute('fill')).toEqual('red');
+      expect(group.getAttribute('class')).toEqual('group-class');
+    });
+
+    it('Should emit onInitialize on group creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createGroup = false;
+
+      fixture.detectChanges();
+
+      app.createGroup = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click event handler', () => {
+      spyOn(app, 'eventCalled');
+
+      html.querySelector('svg > g').dispatchEvent(new MouseEvent('click'));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should keep correct order of elements within the group', () => {
+      app.createCircle = false;
+      fixture.detectChanges();
+
+      app.createCircle = true;
+      fixture.detectChanges();
+
+      const group = html.querySelector('svg > g');
+      expect(Array.from(group.children).map((child) => child.nodeName)).toEqual(['circle', 'rect', 'g']);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should update transform, color and classes of the group', () => {
+      app.transform = { rotate: 90 };
+      app.color = '';
+      app.classes = ['other-class'];
+
+      fixture.detectChanges();
+
+      const group = html.querySelector('svg > g');
+      expect(group.getAttribute('transform')).toContain('matrix');
+      expect(group.getAttribute('fill')).toBeNull();
+      expect(group.getAttribute('class')).toEqual('other-class');
+    });
+  });
+
+  describe('moveBy fn tests', () => {
+    it('Should move the group on top of the transform input', () => {
+      spyOn(app.groupDirective.transformChange, 'emit');
+      const rect = html.querySelector('svg > g > rect');
+      const before = rect.getBoundingClientRect();
+
+      app.groupDirective.moveBy(5, 10);
+
+      const after = rect.getBoundingClientRect();
+      expect(after.left - before.left).toBeCloseTo(5);
+      expect(after.top - before.top).toBeCloseTo(10);
+      expect(app.groupDirective.transformChange.emit).toHaveBeenCalledWith(jasmine.objectContaining({ translateX: 5, translateY: 10 }));
+    });
+
+    it('Should move the rotated group in coordinates of its parent', () => {
+      app.transform = { rotate: 90 };
+      fixture.detectChanges();
+
+      const rect = html.querySelector('svg > g > rect');
+      const before = rect.getBoundingClientRect();
+
+      app.groupDirective.moveBy(5, 0);
+
+      const after = rect.getBoundingClientRect();
+      expect(after.left - before.left).toBeCloseTo(5);
+      expect(after.top - before.top).toBeCloseTo(0);
+    });
+  });
+
+  describe('Should test dragging', () => {
+    it('Should snap and bound the translated group from its position after the previous drag', () => {
+      const dragFixture = TestBed.createComponent(DragTestComponent);
+      const element: HTMLElement = dragFixture.nativeElement;
+
+      /**
+       * Drags the group by its rect by given distance in pixels.
+       * @param dx - Distance to drag on x-axis.
+       * @param dy - Distance to drag on y-axis.
+       */
+      const dragGroup = (dx: number, dy: number) => {
+        const target = element.querySelector('rect');
+        const { left, top } = target.getBoundingClientRect();
+        target.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 1, clientY: top + 1, button: 0, bubbles: true }));
+        document.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 1 + dx, clientY: top + 1 + dy }));
+        document.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 1 + dx, clientY: top + 1 + dy }));
+        dragFixture.detectChanges();
+      };
+
+      // Left edge of the group is at 5, so it snaps to 20 instead of 10
+      dragGroup(13, 7);
+
+      expect(dragFixture.componentInstance.translateX).toEqual(20);
+      expect(dragFixture.componentInstance.translateY).toEqual(10);
+
+      // Group is stopped at the bounds, which it reaches from its translated position
+      dragGroup(18, 30);
+
+      expect(dragFixture.componentInstance.translateX).toEqual(30);
+      expect(dragFixture.componentInstance.translateY).toEqual(30);
+
+      const svg = element.querySelector('svg').getBoundingClientRect();
+      const rect = element.querySelector('rect').getBoundingClientRect();
+      expect(rect.right - svg.left).toBeCloseTo(50);
+      expect(rect.bottom - svg.top).toBeCloseTo(50);
+    });
+  });
+
+  describe('ngAfterViewChecked fn tests', () => {
+    it('Should rotate the group around the center of the nested shapes, once they are added', () => {
+      const rotatedFixture = TestBed.createComponent(RotatedGroupTestComponent);
+      const element: HTMLElement = rotatedFixture.nativeElement;
+
+      const svg = element.querySelector('svg').getBoundingClientRect();
+      const rect = element.querySelector('rect').getBoundingClientRect();
+      expect(rect.left - svg.left).toBeCloseTo(15);
+      expect(rect.top - svg.top).toBeCloseTo(5);
+      expect(rect.width).toBeCloseTo(10);
+      expect(rect.height).toBeCloseTo(20);
+    });
+  });
+
+  describe('onChildChange fn tests', () => {
+    it('Should rotate the group around the new center, once the nested shape is resized', () => {
+      const rotatedFixture = TestBed.createComponent(RotatedGroupTestComponent);
+      const element: HTMLElement = rotatedFixture.nativeElement;
+
+      rotatedFixture.componentInstance.width = 40;
+      rotatedFixture.detectChanges();
+
+      const svg = element.querySelector('svg').getBoundingClientRect();
+      const rect = element.querySelector('rect').getBoundingClientRect();
+      expect(rect.left - svg.left).toBeCloseTo(25);
+      expect(rect.top - svg.top).toBeCloseTo(-5);
+      expect(rect.height).toBeCloseTo(40);
+    });
+
+    it('Should not measure nested shapes on change detection, if they have not changed', () => {
+      const rotatedFixture = TestBed.createComponent(RotatedGroupTestComponent);
+      const groupDirective = rotatedFixture.componentInstance.groupDirective;
+      spyOn(groupDirective, 'getBox').and.callThrough();
+
+      rotatedFixture.detectChanges();
+      rotatedFixture.detectChanges();
+
+      expect(groupDirective.getBox).not.toHaveBeenCalled();
+    });
+  });
+});
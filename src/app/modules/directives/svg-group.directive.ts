@@ -0,0 +1,179 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, Optional, SkipSelf, forwardRef } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, G, Matrix, MatrixTransformParam } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgBox } from '../models';
+
+@Directive({
+  selector: 'svg-group',
+  providers: [
+    { provide: SvgParent, useExisting: forwardRef(() => SvgGroupDirective) }
+  ]
+})
+export class SvgGroupDirective extends SvgBaseDirective<G> implements SvgParent {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: G | null = null;
+  protected override color = ''; // Fill color inherited by nested shapes.
+  private _transformBox: SvgBox | null = null; // Box of the nested shapes, around which the group has been transformed.
+
+  /**
+   * Input variables for the group directive.
+   */
+  @Input() transform: MatrixTransformParam | string = ''; // Transform attribute string or svg.js transform object.
+  // Takes precedence over rotate, scale and skew inputs, translate inputs move the group on top of it.
+
+  /**
+   * Create SVG Group directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case group is nested within another group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() @SkipSelf() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Transforms the group again, once the nested shapes are added, changed or removed,
+   * since the group is rotated and scaled around the center of their box.
+   */
+  onChildChange(): void {
+    if (!this._shape) {
+      return;
+    }
+    if (!this.transform && this.origin === null && !this.isAnimating()) {
+      const box = this.getBox();
+      const previous = this._transformBox;
+      const isSameBox = !!box && !!previous && box.x === previous.x && box.y === previous.y &&
+        box.width === previous.width && box.height === previous.height;
+      if (box && !isSameBox) {
+        this.setTransform();
+      }
+    }
+
+    // Box of the group is part of the box of its parent
+    this.notifyParent();
+  }
+
+  /**
+   * Retrieves group element, to which nested directives add their elements.
+   * @returns Group instance, or null if it is not created yet.
+   */
+  getContainer(): Container | null {
+    return this._shape;
+  }
+
+  /**
+   * Update group object within the SVG container.
+   */
+  override updateShape(): void {
+    this.setAttributes();
+    this.addRemoveClasses(this.classes);
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create group object within the SVG container.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    if (!container) {
+      return;
+    }
+    this._shape = container
+      .group() // Create the group object
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    this.setAttributes();
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the group
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the group element
+    this.onInitialize.emit(this._shape);
+  }
+
+  private setAttributes(): void {
+    const group = this._shape;
+    if (!group) {
+      return;
+    }
+    this.setPaint(); // Set the fill, border and opacity inherited by nested shapes
+  }
+
+  /**
+   * Sets transform attribute of the group, either from transform and translate inputs or from rotate, scale, skew and translate inputs.
+   */
+  protected override setTransform(): void {
+    const group = this._shape;
+    if (!group || !this.transform) {
+      this._transformBox = this.getBox();
+      super.setTransform();
+      return;
+    }
+
+    // Set the transformation of the group
+    if (typeof this.transform === 'string') {
+      group.attr('transform', this.transform);
+    } else {
+      group.untransform().transform(this.transform);
+    }
+
+    // Group is moved, e.g. by dragging, in coordinates of its parent, on top of the transform input
+    if (this.translateX || this.translateY) {
+      group.transform(new Matrix(group).translate(this.translateX, this.translateY));
+    }
+  }
+
+  /**
+   * Retrieves transformation, which the group is animated to, when transform inputs change.
+   * @returns Transform input if it is an object and group isn't moved on top of it, null if it is a string or group is moved,
+   * otherwise transformation from the transform inputs.
+   */
+  protected override getTransformTarget(): MatrixTransformParam | null {
+    if (!this.transform) {
+      return super.getTransformTarget();
+    }
+    return typeof this.transform === 'string' || this.translateX || this.translateY ? null : this.transform;
+  }
+
+  /**
+   * Moves the group while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.translateX += dx;
+    this.translateY += dy;
+  }
+
+  /**
+   * Emits new transformation of the group after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.transformChange.emit(this.getTransform());
+  }
+}
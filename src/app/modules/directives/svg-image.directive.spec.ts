@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, ChangeDetectorRef, EventEmitter, ViewChild } from '@angular/core';
 import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
 
 /**
@@ -14,12 +14,18 @@ import { SvgContainerComponent } from 'app/modules/components';
  */
 import { SvgImageDirective } from './svg-image.directive';
 
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
+
 // Let's mock component that uses the directive
 @Component({
   template: `
     <svg-container containerId="test-id">
       <svg-image [height]="height" [width]="width" [imageUrl]="imageUrl"
         [x]="x" [y]="y" [classes]="classes"
+        [preserveAspectRatio]="preserveAspectRatio" [autoSize]="autoSize" [placeholder]="placeholder"
         (clickEvent)="eventCalled()"
         (doubleClickEvent)="eventCalled()"
         (mouseOverEvent)="eventCalled()"
@@ -34,12 +40,16 @@ class TestComponent implements OnInit {
    * Globally used parameters within the component.
    */
   public createImage = true;
-  public imageUrl = 'https://vvaldersteins.github.io/ngx-svg/assets/dog.png';
+  public imageUrl: string | Blob = 'https://vvaldersteins.github.io/ngx-svg/assets/dog.png';
   public height = 10;
   public width = 10;
   public x = 0;
   public y = 0;
   public classes = ['black-border'];
+  public preserveAspectRatio: string | null = null;
+  public autoSize = false;
+  public placeholder: string | null = null;
+  @ViewChild(SvgImageDirective) public imageDirective: SvgImageDirective;
 
   /**
    * Creates test component object instance.
@@ -62,6 +72,30 @@ class TestComponent implements OnInit {
   eventCalled() {}
 }
 
+// Let's mock component with the image, which uses the inputs shared by all the shapes
+@Component({
+  template: `
+    <svg-container containerId="shared-id">
+      <svg-image [imageUrl]="imageUrl" [x]="10" [y]="10" [width]="30" [height]="10"
+        [borderColor]="borderColor" [borderSize]="borderSize" [opacity]="opacity"
+        [rotate]="rotate" [translateX]="translateX" [animate]="animate"></svg-image>
+    </svg-container>
+  `
+})
+class SharedInputsTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public imageUrl = `data:image/svg+xml,${encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg"></svg>')}`;
+  public borderColor = '#f00';
+  public borderSize: number | null = 2;
+  public opacity: number | null = 0.5;
+  public rotate = 0;
+  public translateX = 0;
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgImageDirective) public imageDirective: SvgImageDirective;
+}
+
 describe('SVG Image Directive', () => {
   let app: TestComponent;
   let fixture: ComponentFixture<TestComponent>;
@@ -73,6 +107,7 @@ describe('SVG Image Directive', () => {
       declarations: [
         SvgContainerComponent,
         TestComponent,
+        SharedInputsTestComponent,
         SvgImageDirective
       ],
       providers: [
@@ -266,6 +301,150 @@ describe('SVG Image Directive', () => {
       expect(image.getAttribute('class')).toEqual('black-border');
     });
 
+    it('Should set preserveAspectRatio and remove it when reset to null', () => {
+      app.preserveAspectRatio = 'xMidYMid slice';
+
+      fixture.detectChanges();
+
+      const image = html.querySelector('image');
+      expect(image.getAttribute('preserveAspectRatio')).toEqual('xMidYMid slice');
+
+      app.preserveAspectRatio = null;
+
+      fixture.detectChanges();
+
+      expect(image.getAttribute('preserveAspectRatio')).toBeNull();
+    });
+
+    describe('Should test image loading', () => {
+      const svgUrl = `data:image/svg+xml,${encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" width="20" height="10"></svg>')}`;
+
+      /**
+       * Waits until the output of the image directive emits.
+       * @param output - Output of the image directive.
+       * @returns Promise, which resolves with the emitted value.
+       */
+      function waitFor<T>(output: EventEmitter<T>): Promise<T> {
+        return new Promise((resolve) => {
+          const subscription = output.subscribe((value: T) => {
+            subscription.unsubscribe();
+            resolve(value);
+          });
+        });
+      }
+
+      it('Should emit natural size of the image, after it has been loaded', async () => {
+        app.imageUrl = svgUrl;
+        fixture.detectChanges();
+
+        const event = await waitFor(app.imageDirective.loaded);
+
+        expect(event).toEqual({ naturalWidth: 20, naturalHeight: 10 });
+        expect(html.querySelector('image').getAttribute('width')).toEqual('10');
+      });
+
+      it('Should size the image to its natural size, when autoSize is enabled', async () => {
+        app.autoSize = true;
+        app.imageUrl = svgUrl;
+        fixture.detectChanges();
+
+        await waitFor(app.imageDirective.loaded);
+
+        const image = html.querySelector('image');
+        expect(image.getAttribute('width')).toEqual('20');
+        expect(image.getAttribute('height')).toEqual('10');
+      });
+
+      it('Should size the loaded image to its natural size, when autoSize gets enabled', async () => {
+        app.imageUrl = svgUrl;
+        fixture.detectChanges();
+        await waitFor(app.imageDirective.loaded);
+
+        const image = html.querySelector('image');
+        expect(image.getAttribute('width')).toEqual('10');
+
+        const widthChange = waitFor(app.imageDirective.widthChange);
+        app.autoSize = true;
+        fixture.detectChanges();
+
+        expect(image.getAttribute('width')).toEqual('20');
+        expect(image.getAttribute('height')).toEqual('10');
+        expect(await widthChange).toEqual(20);
+      });
+
+      it('Should rotate the image around the center of its natural size, when autoSize is enabled', async () => {
+        app.autoSize = true;
+        app.imageUrl = svgUrl;
+        fixture.detectChanges();
+        app.imageDirective.applyTransform({ rotate: 90 });
+
+        await waitFor(app.imageDirective.loaded);
+
+        const { e, f } = (html.querySelector('image') as SVGImageElement).transform.baseVal.consolidate().matrix;
+        expect(e).toBeCloseTo(15);
+        expect(f).toBeCloseTo(-5);
+      });
+
+      it('Should emit error, if the image could not be loaded', async () => {
+        app.imageUrl = 'data:image/png;base64,invalid';
+        fixture.detectChanges();
+
+        const event = await waitFor(app.imageDirective.error);
+
+        expect(event.type).toEqual('error');
+      });
+
+      it('Should show the placeholder, while the image is loading', async () => {
+        app.placeholder = '#eee';
+        app.imageUrl = svgUrl;
+        fixture.detectChanges();
+
+        const image = html.querySelector('image');
+        expect(image.getAttribute('href').startsWith('data:image/svg+xml')).toBeTrue();
+        expect(image.getAttribute('href')).not.toEqual(svgUrl);
+        expect(image.getAttribute('preserveAspectRatio')).toEqual('none');
+
+        await waitFor(app.imageDirective.loaded);
+
+        expect(image.getAttribute('href')).toEqual(svgUrl);
+        expect(image.getAttribute('preserveAspectRatio')).toBeNull();
+      });
+
+      it('Should show and hide the placeholder, when it is changed while the image is loading', () => {
+        app.imageUrl = svgUrl;
+        fixture.detectChanges();
+
+        const image = html.querySelector('image');
+        expect(image.getAttribute('href')).toEqual(svgUrl);
+
+        app.placeholder = '#eee';
+        fixture.detectChanges();
+
+        expect(image.getAttribute('href')).not.toEqual(svgUrl);
+        expect(image.getAttribute('preserveAspectRatio')).toEqual('none');
+
+        app.placeholder = null;
+        fixture.detectChanges();
+
+        expect(image.getAttribute('href')).toEqual(svgUrl);
+        expect(image.getAttribute('preserveAspectRatio')).toBeNull();
+      });
+
+      it('Should create object URL for the Blob and revoke it on destroy', () => {
+        spyOn(URL, 'revokeObjectURL').and.callThrough();
+        app.imageUrl = new Blob(['<svg xmlns="http://www.w3.org/2000/svg"></svg>'], { type: 'image/svg+xml' });
+        fixture.detectChanges();
+
+        const url = html.querySelector('image').getAttribute('href');
+        expect(url.startsWith('blob:')).toBeTrue();
+
+        app.createImage = false;
+        fixture.detectChanges();
+
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith(url);
+      });
+    });
+
     describe('Should test class changes', () => {
       it('Should remove existing classes, if they were removed', () => {
         app.classes = [];
@@ -295,4 +474,60 @@ describe('SVG Image Directive', () => {
       });
     });
   });
+
+  describe('Should test shared inputs', () => {
+    let sharedFixture: ComponentFixture<SharedInputsTestComponent>;
+    let shared: SharedInputsTestComponent;
+    let element: SVGGraphicsElement;
+
+    beforeEach(() => {
+      sharedFixture = TestBed.createComponent(SharedInputsTestComponent);
+      shared = sharedFixture.componentInstance;
+      element = sharedFixture.nativeElement.querySelector('image');
+    });
+
+    it('Should set border and opacity of the image', () => {
+      expect(element.getAttribute('stroke')).toEqual('#ff0000');
+      expect(element.getAttribute('stroke-width')).toEqual('2');
+      expect(element.getAttribute('opacity')).toEqual('0.5');
+
+      shared.borderSize = 4;
+      shared.opacity = null;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('stroke-width')).toEqual('4');
+      expect(element.getAttribute('opacity')).toBeNull();
+    });
+
+    it('Should rotate the image around the center of its box and translate it', () => {
+      const box = element.getBBox();
+      const center = new DOMPoint(box.x + box.width / 2, box.y + box.height / 2);
+
+      shared.rotate = 90;
+      shared.translateX = 5;
+      sharedFixture.detectChanges();
+
+      const matrix = element.transform.baseVal.consolidate().matrix;
+      const transformed = center.matrixTransform(matrix);
+      expect(matrix.a).toBeCloseTo(0);
+      expect(matrix.b).toBeCloseTo(1);
+      expect(transformed.x).toBeCloseTo(center.x + 5);
+      expect(transformed.y).toBeCloseTo(center.y);
+    });
+
+    it('Should animate rotation of the image', async () => {
+      shared.animate = { duration: 30, easing: '-' };
+      sharedFixture.detectChanges();
+      const animationEnd = new Promise<void>((resolve) => shared.imageDirective.animationEnd.subscribe(() => resolve()));
+
+      shared.rotate = 90;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('transform')).toBeNull();
+
+      await animationEnd;
+
+      expect(shared.imageDirective.getElement().transform().rotate).toBeCloseTo(90);
+    });
+  });
 });
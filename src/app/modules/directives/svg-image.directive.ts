@@ -1,18 +1,20 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, OnChanges, SimpleChanges, ElementRef } from '@angular/core';
+import { Directive, Input, OnChanges, SimpleChanges, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
  */
-import { Image } from '@svgdotjs/svg.js';
+import { Image, namespaces } from '@svgdotjs/svg.js';
 
 /**
  * Import custom components.
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgBox, SvgImageLoadEvent } from '../models';
 import { getClassesToAddAndRemove } from '../util/handle-class-changes.util';
 
 @Directive({
@@ -24,26 +26,41 @@ export class SvgImageDirective extends SvgBaseDirective implements OnChanges {
    * Globally used variables within the directive.
    */
   override _shape: Image | null = null;
+  override readonly resizable = true;
+  private _loader: HTMLImageElement | null = null; // Image, which loads the current url, or null if nothing is loading.
+  private _objectUrl: string | null = null; // Object URL created for the Blob image, revoked once it is not used anymore.
+  private _naturalSize: SvgImageLoadEvent | null = null; // Natural size of the loaded image, or null until it is loaded.
 
   /**
    * Import variables for the image directive.
    */
   @Input() x = 0; // Starting point on x-axis.
   @Input() y = 0; // Starting point on y-axis.
-  @Input() imageUrl = ''; // Path to the image for SVG image.
+  @Input() imageUrl: string | Blob = ''; // Path to the image, data URI or Blob, for which an object URL is created.
   @Input() height = 100; // Height of the image.
   @Input() width = 100; // Width of the image.
+  @Input() preserveAspectRatio: string | null = null; // How the image is fitted into its box, e.g. 'xMidYMid slice' or 'none'.
+  @Input() autoSize = false; // Indicator if the image should be sized to its intrinsic dimensions, once it is loaded.
+  @Input() placeholder: string | null = null; // Color, which fills the image box while the image is loading.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the image has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the image has been dragged.
+  @Output() widthChange: EventEmitter<number> = new EventEmitter(); // Emits new width, after the image has been resized.
+  @Output() heightChange: EventEmitter<number> = new EventEmitter(); // Emits new height, after the image has been resized.
+  @Output() loaded: EventEmitter<SvgImageLoadEvent> = new EventEmitter(); // Emits natural size, after the image has been loaded.
+  @Output() error: EventEmitter<Event> = new EventEmitter(); // Emits error event, if the image could not be loaded.
 
   /**
    * Create SVG image directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     override _svgContainer: SvgContainerComponent,
-    override _elRef: ElementRef
+    override _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -52,20 +69,55 @@ export class SvgImageDirective extends SvgBaseDirective implements OnChanges {
    */
   override ngOnChanges(changes: SimpleChanges): void {
     // Make sure we check it only when image is initialized
-    const { x, y, width, height, imageUrl } = changes;
-    if (this._shape) {
-      // Update image also in case image url has changed
-      if (imageUrl && imageUrl.currentValue !== imageUrl.previousValue) {
-        // Update image properties and image itself
-        this.updateImage(true);
-      } else if (
-        (x && x.currentValue !== x.previousValue) ||
-        (y && y.currentValue !== y.previousValue) ||
-        (width && width.currentValue !== width.previousValue) ||
-        (height && height.currentValue !== height.previousValue)
-      ) {
-        // Update only image properties
-        this.updateImage(false);
+    const { x, y, width, height, imageUrl, autoSize, placeholder } = changes;
+    const image = this._shape;
+    if (image) {
+      const reloadImage = !!imageUrl && imageUrl.currentValue !== imageUrl.previousValue;
+
+      // Let's size already loaded image, once autoSize gets enabled
+      const naturalSize = this._naturalSize;
+      const fitNaturalSize = !reloadImage && !!naturalSize && !!autoSize?.currentValue && !autoSize.previousValue;
+      if (fitNaturalSize) {
+        this.width = naturalSize.naturalWidth;
+        this.height = naturalSize.naturalHeight;
+      }
+
+      this.animateChanges(() => {
+        // Update image also in case image url has changed
+        if (reloadImage) {
+          // Update image properties and image itself
+          this.updateImage(true);
+        } else if (
+          (x && x.currentValue !== x.previousValue) ||
+          (y && y.currentValue !== y.previousValue) ||
+          (width && width.currentValue !== width.previousValue) ||
+          (height && height.currentValue !== height.previousValue) ||
+          changes['preserveAspectRatio'] ||
+          fitNaturalSize ||
+          placeholder
+        ) {
+          // Show or hide placeholder of the image, which is still loading
+          if (placeholder && this._loader) {
+            this.setHref(image, this._loader.src);
+          }
+
+          // Update only image properties
+          this.updateImage(false);
+        }
+
+        // Check if fill, border, opacity, clipping, masking or filters were changed
+        if (this.hasPaintChanges(changes)) {
+          this.setPaint();
+        }
+
+        // Let's update transformation, since origin depends on image position and size
+        this.setTransform();
+      });
+      this.notifyParent();
+
+      // Let's emit the natural size after change detection, since bindings of the parent have been already checked
+      if (fitNaturalSize) {
+        Promise.resolve().then(() => this.emitSizeChange());
       }
 
       // Check if classes were changed
@@ -77,6 +129,13 @@ export class SvgImageDirective extends SvgBaseDirective implements OnChanges {
     }
   }
 
+  /**
+   * Update image properties within the SVG container, without reloading the image.
+   */
+  override updateShape(): void {
+    this.updateImage(false);
+  }
+
   /**
    * Update image object within the SVG container.
    * @param reloadImage - Boolean indicator if image should be reloaded.
@@ -90,8 +149,7 @@ export class SvgImageDirective extends SvgBaseDirective implements OnChanges {
     if (reloadImage) {
       this.loadImage(image);
     } else { // Update just image properties
-      image.size(this.width, this.height) // Update image size
-           .move(this.x, this.y); // Update image position
+      this.setAttributes(image);
     }
     // Let's set element in a correct position
     this.setCorrectPosition();
@@ -101,13 +159,19 @@ export class SvgImageDirective extends SvgBaseDirective implements OnChanges {
    * Create image object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
 
     this._shape = container.image(); // Assign image object
+    this._shape
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
     this.loadImage(this._shape);
+    this.setPaint();
 
     // Let's set element in a correct position
     this.setCorrectPosition();
@@ -119,15 +183,190 @@ export class SvgImageDirective extends SvgBaseDirective implements OnChanges {
     this.onInitialize.emit(this._shape);
   }
 
+  /**
+   * Retrieves fill color of the image, which is never filled.
+   * @returns Null, so that fill attribute is not set.
+   */
+  protected override getFill(): null {
+    return null;
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the image.
+   */
+  override ngOnDestroy(): void {
+    super.ngOnDestroy();
+    this._loader = null;
+    this.revokeObjectUrl();
+  }
+
+  /**
+   * Loads the image, while placeholder is shown in the image box.
+   * @param image - Image element of the directive.
+   */
   private loadImage(image: Image): void {
+    const url = this.getImageUrl();
+    this._loader = null;
+    this._naturalSize = null;
+    if (url) {
+      const loader = new window.Image();
+      loader.addEventListener('load', () => this.onLoad(image, loader, url));
+      loader.addEventListener('error', (evt: Event) => this.onError(image, loader, url, evt));
+      loader.src = url;
+      this._loader = loader;
+
+      this.setHref(image, url);
+    }
+    this.setAttributes(image);
+  }
+
+  /**
+   * Shows the image right away, unless placeholder should be shown until the image is loaded.
+   * @param image - Image element of the directive.
+   * @param url - Url of the image.
+   */
+  private setHref(image: Image, url: string): void {
+    image.attr('href', this._loader && this.placeholder ? this.getPlaceholderUrl(this.placeholder) : url, namespaces.xlink);
+  }
+
+  /**
+   * Shows the loaded image and emits its natural size.
+   * @param image - Image element of the directive.
+   * @param loader - Image, which has loaded the url.
+   * @param url - Url of the loaded image.
+   */
+  private onLoad(image: Image, loader: HTMLImageElement, url: string): void {
+    // Let's ignore the image, which has been replaced while it was loading
+    if (this._loader !== loader) {
+      return;
+    }
+    this._loader = null;
+    this._naturalSize = { naturalWidth: loader.naturalWidth, naturalHeight: loader.naturalHeight };
+    image.attr('href', url, namespaces.xlink);
+
+    if (this.autoSize) {
+      this.width = loader.naturalWidth;
+      this.height = loader.naturalHeight;
+      this.emitSizeChange();
+    }
+    this.updateImage(false);
+
+    // Let's update transformation, since origin depends on the natural size of the image
+    this.setTransform();
+    this.notifyParent();
+
+    this.loaded.emit(this._naturalSize);
+  }
+
+  /**
+   * Emits new size of the image, after it has been sized to its natural size.
+   */
+  private emitSizeChange(): void {
+    this.widthChange.emit(this.width);
+    this.heightChange.emit(this.height);
+  }
+
+  /**
+   * Removes the placeholder and emits the error of the image, which could not be loaded.
+   * @param image - Image element of the directive.
+   * @param loader - Image, which has failed to load the url.
+   * @param url - Url of the image.
+   * @param evt - Error event of the loader.
+   */
+  private onError(image: Image, loader: HTMLImageElement, url: string, evt: Event): void {
+    if (this._loader !== loader) {
+      return;
+    }
+    this._loader = null;
+    image.attr('href', url, namespaces.xlink);
+    this.setAttributes(image);
+
+    this.error.emit(evt);
+  }
+
+  /**
+   * Sets size, position and aspect ratio of the image.
+   * @param image - Image element of the directive.
+   */
+  private setAttributes(image: Image): void {
     image
-      .load(this.imageUrl) // Load image
       .size(this.width, this.height) // Assign image size
       .move(this.x, this.y) // Assign position
-      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
-      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
-      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
-      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+      .attr({
+        // Placeholder always fills the whole image box
+        preserveAspectRatio: this._loader && this.placeholder ? 'none' : this.preserveAspectRatio
+      });
   }
 
+  /**
+   * Retrieves url of the image. Object URL is created for the Blob, while the previous one is revoked.
+   * @returns Url of the image.
+   */
+  private getImageUrl(): string {
+    this.revokeObjectUrl();
+    if (this.imageUrl instanceof Blob) {
+      this._objectUrl = URL.createObjectURL(this.imageUrl);
+      return this._objectUrl;
+    }
+    return this.imageUrl;
+  }
+
+  /**
+   * Revokes object URL created for the Blob image, so that the Blob can be released.
+   */
+  private revokeObjectUrl(): void {
+    if (this._objectUrl) {
+      URL.revokeObjectURL(this._objectUrl);
+      this._objectUrl = null;
+    }
+  }
+
+  /**
+   * Retrieves data URI of the placeholder image, which is a rectangle filled with the color.
+   * @param color - Color of the placeholder.
+   * @returns Data URI of the placeholder.
+   */
+  private getPlaceholderUrl(color: string): string {
+    const placeholder = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"><rect width="1" height="1" fill="${color}"/></svg>`;
+    return `data:image/svg+xml,${encodeURIComponent(placeholder)}`;
+  }
+
+  /**
+   * Moves the image while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the image after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
+
+  /**
+   * Changes position and size of the image while it is being resized.
+   * @param box - New bounding box of the image.
+   */
+  protected override setBox(box: SvgBox): void {
+    this.x = box.x;
+    this.y = box.y;
+    this.width = box.width;
+    this.height = box.height;
+  }
+
+  /**
+   * Emits new position and size of the image after it has been resized.
+   */
+  protected override emitBoxChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+    this.widthChange.emit(this.width);
+    this.heightChange.emit(this.height);
+  }
 }
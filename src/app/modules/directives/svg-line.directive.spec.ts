@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
 import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
 
 /**
@@ -14,12 +14,18 @@ import { SvgContainerComponent } from 'app/modules/components';
  */
 import { SvgLineDirective } from './svg-line.directive';
 
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
+
 // Let's mock component that uses the directive
 @Component({
   template: `
     <svg-container containerId="test-id">
       <svg-line [borderSize]="borderSize" [borderColor]="borderColor"
         [x0]="x0" [y0]="y0" [x1]="x1" [y1]="y1" [classes]="classes"
+        [markerStart]="markerStart" [markerEnd]="markerEnd"
         (clickEvent)="eventCalled()"
         (doubleClickEvent)="eventCalled()"
         (mouseOverEvent)="eventCalled()"
@@ -41,6 +47,8 @@ class TestComponent implements OnInit {
   public x1 = 1;
   public y1 = 1;
   public classes = ['black-border'];
+  public markerStart: string | null = null;
+  public markerEnd: string | null = null;
 
   /**
    * Creates test component object instance.
@@ -63,6 +71,29 @@ class TestComponent implements OnInit {
   eventCalled() {}
 }
 
+// Let's mock component with the line, which uses the inputs shared by all the shapes
+@Component({
+  template: `
+    <svg-container containerId="shared-id">
+      <svg-line [x0]="10" [y0]="10" [x1]="40" [y1]="20"
+        [borderColor]="borderColor" [borderSize]="borderSize" [opacity]="opacity"
+        [rotate]="rotate" [translateX]="translateX" [animate]="animate"></svg-line>
+    </svg-container>
+  `
+})
+class SharedInputsTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public borderColor = '#f00';
+  public borderSize: number | null = 2;
+  public opacity: number | null = 0.5;
+  public rotate = 0;
+  public translateX = 0;
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgLineDirective) public lineDirective: SvgLineDirective;
+}
+
 describe('SVG Line Directive', () => {
   let app: TestComponent;
   let fixture: ComponentFixture<TestComponent>;
@@ -74,6 +105,7 @@ describe('SVG Line Directive', () => {
       declarations: [
         SvgContainerComponent,
         TestComponent,
+        SharedInputsTestComponent,
         SvgLineDirective
       ],
       providers: [
@@ -259,4 +291,120 @@ describe('SVG Line Directive', () => {
       });
     });
   });
+
+  describe('Should test markers', () => {
+    it('Should create preset marker in defs with the border color of the line', () => {
+      app.borderColor = '#f00';
+      app.markerEnd = 'arrow';
+
+      fixture.detectChanges();
+
+      const marker = html.querySelector('defs marker');
+      expect(marker).not.toBeNull();
+      expect(html.querySelector('line').getAttribute('marker-end')).toEqual(`url(#${marker.id})`);
+      expect(marker.querySelector('path').getAttribute('fill')).toEqual('#ff0000');
+    });
+
+    it('Should update preset marker color, when border color changes', () => {
+      app.markerEnd = 'circle';
+      fixture.detectChanges();
+
+      app.borderColor = '#00f';
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('marker').length).toEqual(1);
+      expect(html.querySelector('marker circle').getAttribute('fill')).toEqual('#0000ff');
+    });
+
+    it('Should set reference to a custom marker as it is and remove unused preset marker', () => {
+      app.markerStart = 'diamond';
+      fixture.detectChanges();
+
+      app.markerStart = 'url(#custom)';
+      fixture.detectChanges();
+
+      expect(html.querySelector('line').getAttribute('marker-start')).toEqual('url(#custom)');
+      expect(html.querySelector('marker')).toBeNull();
+    });
+
+    it('Should remove marker attribute, when marker is reset to null', () => {
+      app.markerStart = 'square';
+      fixture.detectChanges();
+
+      app.markerStart = null;
+      fixture.detectChanges();
+
+      expect(html.querySelector('line').getAttribute('marker-start')).toBeNull();
+      expect(html.querySelector('marker')).toBeNull();
+    });
+
+    it('Should remove preset markers from defs on destroy', () => {
+      app.markerStart = 'open-arrow';
+      app.markerEnd = 'arrow';
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('marker').length).toEqual(2);
+
+      app.createLine = false;
+      fixture.detectChanges();
+
+      expect(html.querySelector('marker')).toBeNull();
+    });
+  });
+
+  describe('Should test shared inputs', () => {
+    let sharedFixture: ComponentFixture<SharedInputsTestComponent>;
+    let shared: SharedInputsTestComponent;
+    let element: SVGGraphicsElement;
+
+    beforeEach(() => {
+      sharedFixture = TestBed.createComponent(SharedInputsTestComponent);
+      shared = sharedFixture.componentInstance;
+      element = sharedFixture.nativeElement.querySelector('line');
+    });
+
+    it('Should set border and opacity of the line', () => {
+      expect(element.getAttribute('stroke')).toEqual('#ff0000');
+      expect(element.getAttribute('stroke-width')).toEqual('2');
+      expect(element.getAttribute('opacity')).toEqual('0.5');
+
+      shared.borderSize = 4;
+      shared.opacity = null;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('stroke-width')).toEqual('4');
+      expect(element.getAttribute('opacity')).toBeNull();
+    });
+
+    it('Should rotate the line around the center of its box and translate it', () => {
+      const box = element.getBBox();
+      const center = new DOMPoint(box.x + box.width / 2, box.y + box.height / 2);
+
+      shared.rotate = 90;
+      shared.translateX = 5;
+      sharedFixture.detectChanges();
+
+      const matrix = element.transform.baseVal.consolidate().matrix;
+      const transformed = center.matrixTransform(matrix);
+      expect(matrix.a).toBeCloseTo(0);
+      expect(matrix.b).toBeCloseTo(1);
+      expect(transformed.x).toBeCloseTo(center.x + 5);
+      expect(transformed.y).toBeCloseTo(center.y);
+    });
+
+    it('Should animate rotation of the line', async () => {
+      shared.animate = { duration: 30, easing: '-' };
+      sharedFixture.detectChanges();
+      const animationEnd = new Promise<void>((resolve) => shared.lineDirective.animationEnd.subscribe(() => resolve()));
+
+      shared.rotate = 90;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('transform')).toBeNull();
+
+      await animationEnd;
+
+      expect(shared.lineDirective.getElement().transform().rotate).toBeCloseTo(90);
+    });
+  });
 });
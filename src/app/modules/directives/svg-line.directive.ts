@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, ElementRef } from '@angular/core';
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
@@ -13,6 +13,8 @@ import { Line } from '@svgdotjs/svg.js';
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgMarkerPosition, SvgMarkerPreset } from '../util/marker-preset.util';
 
 @Directive({
   selector: 'svg-line'
@@ -26,23 +28,30 @@ export class SvgLineDirective extends SvgBaseDirective {
   /**
    * Import variables for the line directive.
    */
-  @Input() borderSize = 0; // Size of the border.
-  @Input() borderColor = '#000'; // Color of the line.
   @Input() x0 = 0; // Starting point on x-axis.
   @Input() y0 = 0; // Starting point on y-axis.
   @Input() x1 = 1; // Ending point on x-axis.
   @Input() y1 = 1; // Ending point on y-axis.
+  @Input() markerStart: SvgMarkerPreset | string | null = null; // Marker on the first vertex, either a preset or 'url(#id)'.
+  @Input() markerMid: SvgMarkerPreset | string | null = null; // Marker on the vertices between the first and the last one.
+  @Input() markerEnd: SvgMarkerPreset | string | null = null; // Marker on the last vertex, either a preset or 'url(#id)'.
+  @Output() x0Change: EventEmitter<number> = new EventEmitter(); // Emits new x0, after the line has been dragged.
+  @Output() y0Change: EventEmitter<number> = new EventEmitter(); // Emits new y0, after the line has been dragged.
+  @Output() x1Change: EventEmitter<number> = new EventEmitter(); // Emits new x1, after the line has been dragged.
+  @Output() y1Change: EventEmitter<number> = new EventEmitter(); // Emits new y1, after the line has been dragged.
 
   /**
    * Create SVG Line directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
-    _elRef: ElementRef
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -53,9 +62,8 @@ export class SvgLineDirective extends SvgBaseDirective {
     if (!line) {
       return;
     }
-    line
-      .plot(this.x0, this.y0, this.x1, this.y1) // Create the line at specific position
-      .stroke({ color: this.borderColor, width: this.borderSize }); // Set the border for the line
+    line.plot(this.x0, this.y0, this.x1, this.y1); // Create the line at specific position
+    this.setPaint(); // Set the border for the line
 
     // Let's set element in a correct position
     this.setCorrectPosition();
@@ -66,20 +74,50 @@ export class SvgLineDirective extends SvgBaseDirective {
    * Create line object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
     this._shape = container
       .line(this.x0, this.y0, this.x1, this.y1) // Create the line at specific position
-      .stroke({ color: this.borderColor, width: this.borderSize }) // Set the border for the line
       .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
       .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
       .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
       .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
 
+    this.setPaint(); // Set the border for the line
     this.setCorrectPosition();
     this.addRemoveClasses(this.classes);
     this.onInitialize.emit(this._shape);
   }
+
+  /**
+   * Retrieves markers, which are drawn on the vertices of the line.
+   * @returns Marker input values for each of the marker positions.
+   */
+  protected override getMarkers(): Partial<Record<SvgMarkerPosition, string | null>> {
+    return { start: this.markerStart, mid: this.markerMid, end: this.markerEnd };
+  }
+
+  /**
+   * Moves the line while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x0 += dx;
+    this.y0 += dy;
+    this.x1 += dx;
+    this.y1 += dy;
+  }
+
+  /**
+   * Emits new position of the line after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.x0Change.emit(this.x0);
+    this.y0Change.emit(this.y0);
+    this.x1Change.emit(this.x1);
+    this.y1Change.emit(this.y1);
+  }
 }
@@ -0,0 +1,176 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgLinearGradientDirective } from './svg-linear-gradient.directive';
+import { SvgStopDirective } from './svg-stop.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-linear-gradient gradientId="test-gradient" [x2]="x2" [spreadMethod]="spreadMethod"
+        (onInitialize)="eventCalled()"
+        *ngIf="createGradient">
+        <svg-stop [offset]="0" [color]="startColor"></svg-stop>
+        <svg-stop offset="50%" color="#0f0" [opacity]="0.5" *ngIf="createMiddleStop"></svg-stop>
+        <svg-stop [offset]="1" color="#00f"></svg-stop>
+      </svg-linear-gradient>
+      <svg-rect [width]="10" [height]="10" fill="url(#test-gradient)"></svg-rect>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createGradient = true;
+  public createMiddleStop = false;
+  public startColor = '#f00';
+  public x2: number | null = null;
+  public spreadMethod: string | null = null;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Linear Gradient Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgLinearGradientDirective,
+        SvgStopDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the gradient with its stops in defs', () => {
+    const gradient = html.querySelector('defs linearGradient');
+
+    expect(gradient.getAttribute('id')).toEqual('test-gradient');
+    expect(gradient.querySelectorAll('stop').length).toEqual(2);
+    expect(gradient.querySelectorAll('stop')[0].getAttribute('stop-color')).toEqual('#ff0000');
+    expect(gradient.querySelectorAll('stop')[1].getAttribute('offset')).toEqual('1');
+  });
+
+  it('Should let shapes reference the gradient by id', () => {
+    expect(html.querySelector('rect').getAttribute('fill')).toEqual('url(#test-gradient)');
+  });
+
+  it('Should emit onInitialize on gradient creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createGradient = false;
+
+    fixture.detectChanges();
+
+    app.createGradient = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the gradient from defs on destroy', () => {
+    app.createGradient = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('linearGradient')).toBeNull();
+  });
+
+  it('Should update gradient attributes and remove attributes reset to null', () => {
+    app.x2 = 0.5;
+    app.spreadMethod = 'reflect';
+
+    fixture.detectChanges();
+
+    const gradient = html.querySelector('linearGradient');
+    expect(gradient.getAttribute('x2')).toEqual('0.5');
+    expect(gradient.getAttribute('spreadMethod')).toEqual('reflect');
+
+    app.spreadMethod = null;
+
+    fixture.detectChanges();
+
+    expect(gradient.getAttribute('spreadMethod')).toBeNull();
+  });
+
+  describe('Should test stop changes', () => {
+    it('Should update the stop color live', () => {
+      app.startColor = '#ff0';
+
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('stop')[0].getAttribute('stop-color')).toEqual('#ffff00');
+    });
+
+    it('Should add a new stop in the template order', () => {
+      app.createMiddleStop = true;
+
+      fixture.detectChanges();
+
+      const stops = html.querySelectorAll('stop');
+      expect(stops.length).toEqual(3);
+      expect(stops[1].getAttribute('offset')).toEqual('50%');
+      expect(stops[1].getAttribute('stop-opacity')).toEqual('0.5');
+    });
+
+    it('Should remove destroyed stop', () => {
+      app.createMiddleStop = true;
+      fixture.detectChanges();
+
+      app.createMiddleStop = false;
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('stop').length).toEqual(2);
+    });
+  });
+});
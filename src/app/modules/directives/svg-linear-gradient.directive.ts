@@ -0,0 +1,52 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgGradientDirective } from './svg-gradient.directive';
+
+@Directive({
+  selector: 'svg-linear-gradient',
+  providers: [
+    { provide: SvgGradientDirective, useExisting: forwardRef(() => SvgLinearGradientDirective) }
+  ]
+})
+export class SvgLinearGradientDirective extends SvgGradientDirective {
+  /**
+   * Import variables for the linear gradient directive.
+   */
+  @Input() x1: number | string | null = null; // Starting point of the gradient vector on x-axis.
+  @Input() y1: number | string | null = null; // Starting point of the gradient vector on y-axis.
+  @Input() x2: number | string | null = null; // Ending point of the gradient vector on x-axis.
+  @Input() y2: number | string | null = null; // Ending point of the gradient vector on y-axis.
+
+  /**
+   * Create SVG Linear Gradient directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves type of the gradient.
+   * @returns Linear type.
+   */
+  protected getType(): 'linear' {
+    return 'linear';
+  }
+
+  /**
+   * Retrieves attributes of the gradient vector.
+   * @returns Object with attribute values.
+   */
+  protected getGeometry(): { [attribute: string]: number | string | null } {
+    return { x1: this.x1, y1: this.y1, x2: this.x2, y2: this.y2 };
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgMarkerDirective } from './svg-marker.directive';
+import { SvgPathDirective } from './svg-path.directive';
+import { SvgPolylineDirective } from './svg-polyline.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-marker markerId="test-marker" [refX]="refX" [refY]="5" [viewBox]="viewBox" orient="auto-start-reverse"
+        (onInitialize)="eventCalled()"
+        *ngIf="createMarker">
+        <svg-path path="M0,0 L10,5 L0,10 Z" fill="#f00" [borderSize]="null"></svg-path>
+      </svg-marker>
+      <svg-polyline [points]="[[0, 0], [50, 50], [100, 0]]" [borderSize]="2"
+        markerMid="url(#test-marker)" markerEnd="url(#test-marker)"></svg-polyline>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createMarker = true;
+  public refX = 10;
+  public viewBox = [0, 0, 10, 10];
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Marker Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgMarkerDirective,
+        SvgPathDirective,
+        SvgPolylineDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the marker with its nested shapes in defs', () => {
+    const marker = html.querySelector('defs marker');
+
+    expect(marker.getAttribute('id')).toEqual('test-marker');
+    expect(marker.getAttribute('refX')).toEqual('10');
+    expect(marker.getAttribute('orient')).toEqual('auto-start-reverse');
+    expect(marker.getAttribute('viewBox')).toEqual('0 0 10 10');
+    expect(marker.querySelector('path').getAttribute('fill')).toEqual('#ff0000');
+  });
+
+  it('Should let shapes reference the marker by id', () => {
+    const polyline = html.querySelector('polyline');
+
+    expect(polyline.getAttribute('marker-mid')).toEqual('url(#test-marker)');
+    expect(polyline.getAttribute('marker-end')).toEqual('url(#test-marker)');
+  });
+
+  it('Should emit onInitialize on marker creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createMarker = false;
+
+    fixture.detectChanges();
+
+    app.createMarker = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the marker from defs on destroy', () => {
+    app.createMarker = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('marker')).toBeNull();
+  });
+
+  it('Should update marker attributes and remove viewbox if it is not set', () => {
+    app.refX = 5;
+    app.viewBox = [];
+
+    fixture.detectChanges();
+
+    const marker = html.querySelector('marker');
+    expect(marker.getAttribute('refX')).toEqual('5');
+    expect(marker.getAttribute('viewBox')).toBeNull();
+  });
+});
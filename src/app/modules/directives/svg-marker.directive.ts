@@ -0,0 +1,87 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, Marker } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgParent } from './svg-parent';
+
+@Directive({
+  selector: 'svg-marker',
+  providers: [
+    { provide: SvgParent, useExisting: forwardRef(() => SvgMarkerDirective) }
+  ]
+})
+export class SvgMarkerDirective extends SvgDefinitionDirective<Marker> implements SvgParent {
+  /**
+   * Input variables for the marker directive.
+   */
+  @Input() markerId = ''; // Id of the marker, which shapes use to reference it, e.g. markerEnd="url(#id)".
+  @Input() width = 10; // Width of the marker viewport.
+  @Input() height = 10; // Height of the marker viewport.
+  @Input() refX = 0; // Point on x-axis of the marker contents, which is placed on the vertex.
+  @Input() refY = 0; // Point on y-axis of the marker contents, which is placed on the vertex.
+  @Input() viewBox: number[] = []; // Viewbox of the marker contents in format [x, y, width, height].
+  @Input() orient: 'auto' | 'auto-start-reverse' | number = 'auto'; // Rotation of the marker, or 'auto' to follow the direction.
+  @Input() markerUnits: 'strokeWidth' | 'userSpaceOnUse' | null = null; // Coordinate system of width and height.
+
+  /**
+   * Create SVG Marker directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves marker element, to which nested directives add their elements.
+   * @returns Marker instance, or null if it is not created yet.
+   */
+  getContainer(): Container | null {
+    return this._definition;
+  }
+
+  /**
+   * Creates the marker in defs.
+   * @param container - Root container of the svg.
+   * @returns Marker instance.
+   */
+  protected override createDefinition(container: Container): Marker {
+    return container.defs().marker(this.width, this.height);
+  }
+
+  /**
+   * Retrieves id of the marker.
+   * @returns Id of the marker.
+   */
+  protected override getId(): string {
+    return this.markerId;
+  }
+
+  /**
+   * Retrieves size, reference point and other attributes of the marker.
+   * @returns Marker attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      refX: this.refX,
+      refY: this.refY,
+      orient: this.orient,
+      markerWidth: this.width,
+      markerHeight: this.height,
+      viewBox: this.viewBox.length === 4 ? this.viewBox.join(' ') : null,
+      markerUnits: this.markerUnits
+    };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgMaskDirective } from './svg-mask.directive';
+import { SvgGroupDirective } from './svg-group.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-mask maskId="test-mask" [width]="width" maskUnits="userSpaceOnUse"
+        (onInitialize)="eventCalled()"
+        *ngIf="createMask">
+        <svg-rect [width]="revealed" [height]="50" color="#fff"></svg-rect>
+      </svg-mask>
+      <svg-group [mask]="mask">
+        <svg-rect [width]="100" [height]="50" color="#f00"></svg-rect>
+      </svg-group>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createMask = true;
+  public width: number | null = null;
+  public mask: string | null = 'url(#test-mask)';
+  public revealed = 50;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Mask Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgMaskDirective,
+        SvgGroupDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the mask with its nested shapes in defs', () => {
+    const mask = html.querySelector('defs mask');
+
+    expect(mask.getAttribute('id')).toEqual('test-mask');
+    expect(mask.getAttribute('maskUnits')).toEqual('userSpaceOnUse');
+    expect(mask.querySelector('rect').getAttribute('fill')).toEqual('#ffffff');
+  });
+
+  it('Should mask the group, which references the mask', () => {
+    expect(html.querySelector('svg > g').getAttribute('mask')).toEqual('url(#test-mask)');
+  });
+
+  it('Should remove mask reference from the group, when it is reset to null', () => {
+    app.mask = null;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('svg > g').getAttribute('mask')).toBeNull();
+  });
+
+  it('Should update nested shapes and mask attributes', () => {
+    app.revealed = 80;
+    app.width = 120;
+
+    fixture.detectChanges();
+
+    const mask = html.querySelector('mask');
+    expect(mask.getAttribute('width')).toEqual('120');
+    expect(mask.querySelector('rect').getAttribute('width')).toEqual('80');
+  });
+
+  it('Should emit onInitialize on mask creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createMask = false;
+
+    fixture.detectChanges();
+
+    app.createMask = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the mask from defs on destroy', () => {
+    app.createMask = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('mask')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, Mask } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgParent } from './svg-parent';
+
+@Directive({
+  selector: 'svg-mask',
+  providers: [
+    { provide: SvgParent, useExisting: forwardRef(() => SvgMaskDirective) }
+  ]
+})
+export class SvgMaskDirective extends SvgDefinitionDirective<Mask> implements SvgParent {
+  /**
+   * Input variables for the mask directive.
+   */
+  @Input() maskId = ''; // Id of the mask, which shapes use to reference it, e.g. mask="url(#id)".
+  @Input() x: number | string | null = null; // Starting point of the masked area on x-axis.
+  @Input() y: number | string | null = null; // Starting point of the masked area on y-axis.
+  @Input() width: number | string | null = null; // Width of the masked area.
+  @Input() height: number | string | null = null; // Height of the masked area.
+  @Input() maskUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of x, y, width and height.
+  @Input() maskContentUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of the mask contents.
+
+  /**
+   * Create SVG Mask directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves mask element, to which nested directives add their elements.
+   * @returns Mask instance, or null if it is not created yet.
+   */
+  getContainer(): Container | null {
+    return this._definition;
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the mask.
+   */
+  override ngOnDestroy(): void {
+    // Let's remove only the node, since svg.js would also unmask the shapes, which then stay unmasked once mask is recreated
+    this._definition?.node.remove();
+  }
+
+  /**
+   * Creates the mask in defs.
+   * @param container - Root container of the svg.
+   * @returns Mask instance.
+   */
+  protected override createDefinition(container: Container): Mask {
+    return container.mask();
+  }
+
+  /**
+   * Retrieves id of the mask.
+   * @returns Id of the mask.
+   */
+  protected override getId(): string {
+    return this.maskId;
+  }
+
+  /**
+   * Retrieves masked area and units of the mask.
+   * @returns Mask attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      x: this.x,
+      y: this.y,
+      width: this.width,
+      height: this.height,
+      maskUnits: this.maskUnits,
+      maskContentUnits: this.maskContentUnits
+    };
+  }
+}
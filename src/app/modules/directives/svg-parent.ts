@@ -0,0 +1,22 @@
+/**
+ * Import third-party libraries.
+ */
+import { Container } from '@svgdotjs/svg.js';
+
+/**
+ * Element, which holds nested directives instead of the root svg container, e.g. a group.
+ * Directives providing this class are injected into nested directives.
+ */
+export abstract class SvgParent {
+  /**
+   * Retrieves container, to which nested directives should add their elements.
+   * @returns Container instance, or null if it is not created yet.
+   */
+  abstract getContainer(): Container | null;
+
+  /**
+   * Is called by nested directives, once their element is created, changed or removed.
+   * Meant to be implemented by parents, which depend on their contents, e.g. group transformed around the box of nested shapes.
+   */
+  onChildChange?(): void;
+}
@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
 import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
 
 /**
@@ -14,6 +14,11 @@ import { SvgContainerComponent } from 'app/modules/components';
  */
 import { SvgPathDirective } from './svg-path.directive';
 
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
+
 // Let's mock component that uses the directive
 @Component({
   template: `
@@ -63,6 +68,29 @@ class TestComponent implements OnInit {
   eventCalled() {}
 }
 
+// Let's mock component with the path, which uses the inputs shared by all the shapes
+@Component({
+  template: `
+    <svg-container containerId="shared-id">
+      <svg-path path="M0 0 L30 0 L30 10 Z" [x]="10" [y]="10"
+        [borderColor]="borderColor" [borderSize]="borderSize" [opacity]="opacity"
+        [rotate]="rotate" [translateX]="translateX" [animate]="animate"></svg-path>
+    </svg-container>
+  `
+})
+class SharedInputsTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public borderColor = '#f00';
+  public borderSize: number | null = 2;
+  public opacity: number | null = 0.5;
+  public rotate = 0;
+  public translateX = 0;
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgPathDirective) public pathDirective: SvgPathDirective;
+}
+
 describe('SVG Path Directive', () => {
   let app: TestComponent;
   let fixture: ComponentFixture<TestComponent>;
@@ -74,6 +102,7 @@ describe('SVG Path Directive', () => {
       declarations: [
         SvgContainerComponent,
         TestComponent,
+        SharedInputsTestComponent,
         SvgPathDirective
       ],
       providers: [
@@ -275,4 +304,60 @@ describe('SVG Path Directive', () => {
       });
     });
   });
+
+  describe('Should test shared inputs', () => {
+    let sharedFixture: ComponentFixture<SharedInputsTestComponent>;
+    let shared: SharedInputsTestComponent;
+    let element: SVGGraphicsElement;
+
+    beforeEach(() => {
+      sharedFixture = TestBed.createComponent(SharedInputsTestComponent);
+      shared = sharedFixture.componentInstance;
+      element = sharedFixture.nativeElement.querySelector('path');
+    });
+
+    it('Should set border and opacity of the path', () => {
+      expect(element.getAttribute('stroke')).toEqual('#ff0000');
+      expect(element.getAttribute('stroke-width')).toEqual('2');
+      expect(element.getAttribute('opacity')).toEqual('0.5');
+
+      shared.borderSize = 4;
+      shared.opacity = null;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('stroke-width')).toEqual('4');
+      expect(element.getAttribute('opacity')).toBeNull();
+    });
+
+    it('Should rotate the path around the center of its box and translate it', () => {
+      const box = element.getBBox();
+      const center = new DOMPoint(box.x + box.width / 2, box.y + box.height / 2);
+
+      shared.rotate = 90;
+      shared.translateX = 5;
+      sharedFixture.detectChanges();
+
+      const matrix = element.transform.baseVal.consolidate().matrix;
+      const transformed = center.matrixTransform(matrix);
+      expect(matrix.a).toBeCloseTo(0);
+      expect(matrix.b).toBeCloseTo(1);
+      expect(transformed.x).toBeCloseTo(center.x + 5);
+      expect(transformed.y).toBeCloseTo(center.y);
+    });
+
+    it('Should animate rotation of the path', async () => {
+      shared.animate = { duration: 30, easing: '-' };
+      sharedFixture.detectChanges();
+      const animationEnd = new Promise<void>((resolve) => shared.pathDirective.animationEnd.subscribe(() => resolve()));
+
+      shared.rotate = 90;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('transform')).toBeNull();
+
+      await animationEnd;
+
+      expect(shared.pathDirective.getElement().transform().rotate).toBeCloseTo(90);
+    });
+  });
 });
@@ -4,7 +4,10 @@
 import {
   Directive,
   Input,
-  ElementRef
+  ElementRef,
+  Optional,
+  EventEmitter,
+  Output
 } from '@angular/core';
 
 /**
@@ -17,9 +20,12 @@ import { Path } from '@svgdotjs/svg.js';
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgMarkerPosition, SvgMarkerPreset } from '../util/marker-preset.util';
 
 @Directive({
-  selector: 'svg-path'
+  selector: 'svg-path',
+  exportAs: 'svgPath'
 })
 export class SvgPathDirective extends SvgBaseDirective {
   /**
@@ -31,22 +37,27 @@ export class SvgPathDirective extends SvgBaseDirective {
    * Import variables for the path directive.
    */
   @Input() path = ''; // Path which needs to be displayed.
-  @Input() borderColor = '#000'; // Color of the border.
-  @Input() borderSize = 2; // Size of the border.
+  @Input() override borderSize: number | null = 2; // Size of the border.
   @Input() x = 0; // Starting point on x-axis.
   @Input() y = 0; // Starting point on y-axis.
-  @Input() fill = ''; // Fill color of the path.
+  @Input() markerStart: SvgMarkerPreset | string | null = null; // Marker on the first vertex, either a preset or 'url(#id)'.
+  @Input() markerMid: SvgMarkerPreset | string | null = null; // Marker on the vertices between the first and the last one.
+  @Input() markerEnd: SvgMarkerPreset | string | null = null; // Marker on the last vertex, either a preset or 'url(#id)'.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the path has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the path has been dragged.
 
   /**
    * Create SVG Path directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
-    _elRef: ElementRef
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -62,7 +73,7 @@ export class SvgPathDirective extends SvgBaseDirective {
    * Create path object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
@@ -92,8 +103,43 @@ export class SvgPathDirective extends SvgBaseDirective {
       return;
     }
     path.plot(this.path) // Set the path for the element
-      .stroke({ color: this.borderColor, width: this.borderSize }) // Set the border for the path
-      .fill(this.fill || 'rgba(0, 0, 0, 0)') // Set fill of the path
       .move(this.x, this.y); // Set the location of the path
+
+    // Set the border and fill of the path
+    this.setPaint();
+  }
+
+  /**
+   * Retrieves fill color of the path, which is transparent unless fill is set.
+   * @returns Fill color of the path.
+   */
+  protected override getFill(): string {
+    return this.fill || 'rgba(0, 0, 0, 0)';
+  }
+
+  /**
+   * Retrieves markers, which are drawn on the vertices of the path.
+   * @returns Marker input values for each of the marker positions.
+   */
+  protected override getMarkers(): Partial<Record<SvgMarkerPosition, string | null>> {
+    return { start: this.markerStart, mid: this.markerMid, end: this.markerEnd };
+  }
+
+  /**
+   * Moves the path while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the path after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
   }
 }
@@ -0,0 +1,203 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgPatternDirective } from './svg-pattern.directive';
+import { SvgCircleDirective } from './svg-circle.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+/**
+ * Import utilities.
+ */
+import { SvgPatternPreset } from '../util/pattern-preset.util';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-pattern patternId="test-pattern" [width]="width" [height]="8"
+        [patternTransform]="patternTransform" [preset]="preset"
+        (onInitialize)="eventCalled()"
+        *ngIf="createPattern">
+        <svg-rect [width]="width" [height]="8" color="#eee"></svg-rect>
+        <svg-circle [x]="2" [y]="2" [diameter]="4" color="#f00" *ngIf="createDot"></svg-circle>
+      </svg-pattern>
+      <svg-rect [width]="100" [height]="100" fill="url(#test-pattern)"></svg-rect>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createPattern = true;
+  public createDot = true;
+  public width = 8;
+  public patternTransform: string | null = null;
+  public preset: SvgPatternPreset | null = null;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Pattern Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgPatternDirective,
+        SvgCircleDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the pattern with its nested shapes in defs', () => {
+    const pattern = html.querySelector('defs pattern');
+
+    expect(pattern.getAttribute('id')).toEqual('test-pattern');
+    expect(pattern.getAttribute('width')).toEqual('8');
+    expect(pattern.getAttribute('patternUnits')).toEqual('userSpaceOnUse');
+    expect(pattern.querySelector('rect').getAttribute('fill')).toEqual('#eeeeee');
+    expect(pattern.querySelector('circle').getAttribute('fill')).toEqual('#ff0000');
+  });
+
+  it('Should keep nested shapes in the template order', () => {
+    const pattern = html.querySelector('defs pattern');
+
+    expect(pattern.children[0].tagName).toEqual('rect');
+    expect(pattern.children[1].tagName).toEqual('circle');
+  });
+
+  it('Should let shapes reference the pattern by id', () => {
+    const rects = html.querySelectorAll('svg > rect');
+
+    expect(rects[rects.length - 1].getAttribute('fill')).toEqual('url(#test-pattern)');
+  });
+
+  it('Should emit onInitialize on pattern creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createPattern = false;
+
+    fixture.detectChanges();
+
+    app.createPattern = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the pattern from defs on destroy', () => {
+    app.createPattern = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('pattern')).toBeNull();
+  });
+
+  it('Should remove destroyed nested shape from the pattern', () => {
+    app.createDot = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('pattern circle')).toBeNull();
+  });
+
+  it('Should update pattern attributes and remove attributes reset to null', () => {
+    app.width = 12;
+    app.patternTransform = 'rotate(45)';
+
+    fixture.detectChanges();
+
+    const pattern = html.querySelector('pattern');
+    expect(pattern.getAttribute('width')).toEqual('12');
+    expect(pattern.getAttribute('patternTransform')).toEqual('rotate(45)');
+    expect(pattern.querySelector('rect').getAttribute('width')).toEqual('12');
+
+    app.patternTransform = null;
+
+    fixture.detectChanges();
+
+    expect(pattern.getAttribute('patternTransform')).toBeNull();
+  });
+
+  describe('Should test presets', () => {
+    it('Should draw the preset above the nested shapes', () => {
+      app.preset = 'hatch';
+
+      fixture.detectChanges();
+
+      const pattern = html.querySelector('pattern');
+      expect(pattern.lastElementChild.tagName).toEqual('g');
+      expect(pattern.lastElementChild.querySelector('path')).not.toBeNull();
+    });
+
+    it('Should replace the preset contents when preset changes', () => {
+      app.preset = 'hatch';
+      fixture.detectChanges();
+
+      app.preset = 'dots';
+      fixture.detectChanges();
+
+      const preset = html.querySelector('pattern').lastElementChild;
+      expect(preset.querySelector('path')).toBeNull();
+      expect(preset.querySelector('circle').getAttribute('cx')).toEqual('4');
+    });
+
+    it('Should remove the preset contents when preset is reset to null', () => {
+      app.preset = 'stripes';
+      fixture.detectChanges();
+
+      app.preset = null;
+      fixture.detectChanges();
+
+      expect(html.querySelector('pattern').lastElementChild.children.length).toEqual(0);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, G, Pattern } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgParent } from './svg-parent';
+import { SvgPatternPreset, drawPatternPreset } from '../util/pattern-preset.util';
+
+@Directive({
+  selector: 'svg-pattern',
+  providers: [
+    { provide: SvgParent, useExisting: forwardRef(() => SvgPatternDirective) }
+  ]
+})
+export class SvgPatternDirective extends SvgDefinitionDirective<Pattern> implements SvgParent {
+  /**
+   * Input variables for the pattern directive.
+   */
+  @Input() patternId = ''; // Id of the pattern, which shapes use to reference it, e.g. fill="url(#id)".
+  @Input() x = 0; // Starting point of the pattern tiles on x-axis.
+  @Input() y = 0; // Starting point of the pattern tiles on y-axis.
+  @Input() width = 10; // Width of a single pattern tile.
+  @Input() height = 10; // Height of a single pattern tile.
+  @Input() patternUnits: 'userSpaceOnUse' | 'objectBoundingBox' = 'userSpaceOnUse'; // Coordinate system of x, y, width and height.
+  @Input() patternContentUnits: 'userSpaceOnUse' | 'objectBoundingBox' | null = null; // Coordinate system of the pattern contents.
+  @Input() patternTransform: string | null = null; // Transformation applied to the pattern, e.g. 'rotate(45)'.
+  @Input() preset: SvgPatternPreset | null = null; // Built-in contents of the tile - 'grid', 'dots', 'hatch' or 'stripes'.
+  @Input() presetColor = '#000'; // Color of the preset lines or shapes.
+  @Input() presetSize: number | null = null; // Stroke width of lines, diameter of dots or width of stripes.
+
+  private _preset: G | null = null; // Group holding the preset elements, drawn above the nested shapes.
+
+  /**
+   * Create SVG Pattern directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves pattern element, to which nested directives add their elements.
+   * @returns Pattern instance, or null if it is not created yet.
+   */
+  getContainer(): Container | null {
+    return this._definition;
+  }
+
+  /**
+   * Is called when changes are made to the pattern inputs.
+   */
+  override ngOnChanges(): void {
+    super.ngOnChanges();
+    this.updateContents();
+  }
+
+  /**
+   * Creates the pattern in defs, together with the group for the preset.
+   * @param container - Root container of the svg.
+   * @returns Pattern instance.
+   */
+  protected override createDefinition(container: Container): Pattern {
+    const pattern = container.defs().pattern();
+    this._preset = pattern.group();
+    return pattern;
+  }
+
+  /**
+   * Retrieves id of the pattern.
+   * @returns Id of the pattern.
+   */
+  protected override getId(): string {
+    return this.patternId;
+  }
+
+  /**
+   * Retrieves tile geometry and other attributes of the pattern.
+   * @returns Pattern attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      x: this.x,
+      y: this.y,
+      width: this.width,
+      height: this.height,
+      patternUnits: this.patternUnits,
+      patternContentUnits: this.patternContentUnits,
+      patternTransform: this.patternTransform
+    };
+  }
+
+  /**
+   * Redraws contents of the preset, if one is selected.
+   */
+  protected override updateContents(): void {
+    const group = this._preset;
+    if (!group) {
+      return;
+    }
+    group.clear();
+    if (this.preset) {
+      drawPatternPreset(group, this.preset, this.width, this.height, this.presetColor, this.presetSize);
+    }
+  }
+}
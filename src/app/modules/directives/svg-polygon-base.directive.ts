@@ -0,0 +1,75 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Polygon, PointArrayAlias } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgBaseDirective } from './svg-base.directive';
+
+@Directive()
+export abstract class SvgPolygonBaseDirective extends SvgBaseDirective {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: Polygon | null = null;
+
+  /**
+   * Update polygon object within the SVG container.
+   */
+  override updateShape(): void {
+    const polygon = this._shape;
+    const points = this.getPoints();
+    if (!polygon || !points) {
+      return;
+    }
+    polygon.plot(points); // Update the polygon object
+    this.setPaint(); // Set the fill and border for the polygon
+
+    this.addRemoveClasses(this.classes);
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create polygon object within the SVG container.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    const points = this.getPoints();
+    if (!container || !points) {
+      return;
+    }
+    this._shape = container
+      .polygon(points) // Create the polygon object
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    // Set the fill and border for the polygon
+    this.setPaint();
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the polygon
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the polygon element
+    this.onInitialize.emit(this._shape);
+  }
+
+  /**
+   * This method is meant to be overridden by child classes to provide the vertices of the polygon.
+   * User must implement where the vertices come from, e.g. input or computed from center and radius.
+   * @returns Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]], or null if polygon should not be drawn.
+   */
+  protected abstract getPoints(): PointArrayAlias | null;
+}
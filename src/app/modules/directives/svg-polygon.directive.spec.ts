@@ -1,9 +1,14 @@
 /**
  * Import Angular libraries.
  */
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
 import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
 
+/**
+ * Import third-party libraries.
+ */
+import { PointArrayAlias } from '@svgdotjs/svg.js';
+
 /**
  * Import custom components.
  */
@@ -14,6 +19,11 @@ import { SvgContainerComponent } from 'app/modules/components';
  */
 import { SvgPolygonDirective } from './svg-polygon.directive';
 
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
+
 // Let's mock component that uses the directive
 @Component({
   template: `
@@ -61,6 +71,44 @@ class TestComponent implements OnInit {
   eventCalled() {}
 }
 
+// Let's mock component with the draggable polygon, which keeps the points in sync
+@Component({
+  template: `
+    <svg-container containerId="drag-id">
+      <svg-polygon [(points)]="points" [draggable]="true"></svg-polygon>
+    </svg-container>
+  `
+})
+class DragTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public points: PointArrayAlias = [[0, 0], [10, 10], [10, 0], [0, 10]];
+}
+
+// Let's mock component with the polygon, which uses the inputs shared by all the shapes
+@Component({
+  template: `
+    <svg-container containerId="shared-id">
+      <svg-polygon [points]="[[10, 10], [40, 10], [40, 20]]"
+        [borderColor]="borderColor" [borderSize]="borderSize" [opacity]="opacity"
+        [rotate]="rotate" [translateX]="translateX" [animate]="animate"></svg-polygon>
+    </svg-container>
+  `
+})
+class SharedInputsTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public borderColor = '#f00';
+  public borderSize: number | null = 2;
+  public opacity: number | null = 0.5;
+  public rotate = 0;
+  public translateX = 0;
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgPolygonDirective) public polygonDirective: SvgPolygonDirective;
+}
+
 describe('SVG Polygon Directive', () => {
   let app: TestComponent;
   let fixture: ComponentFixture<TestComponent>;
@@ -72,6 +120,8 @@ describe('SVG Polygon Directive', () => {
       declarations: [
         SvgContainerComponent,
         TestComponent,
+        SharedInputsTestComponent,
+        DragTestComponent,
         SvgPolygonDirective
       ],
       providers: [
@@ -251,4 +301,77 @@ describe('SVG Polygon Directive', () => {
       });
     });
   });
+
+  describe('Should test dragging', () => {
+    it('Should move all points and update bound points after the drag', () => {
+      const dragFixture = TestBed.createComponent(DragTestComponent);
+      const element: HTMLElement = dragFixture.nativeElement;
+
+      const polygon = element.querySelector('polygon');
+      const { left, top } = polygon.getBoundingClientRect();
+      polygon.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 5, clientY: top + 5, button: 0 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 10, clientY: top + 25 }));
+      document.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 10, clientY: top + 25 }));
+      dragFixture.detectChanges();
+
+      expect(element.querySelector('polygon').getAttribute('points')).toEqual('5,20 15,30 15,20 5,30');
+      expect(dragFixture.componentInstance.points).toEqual([[5, 20], [15, 30], [15, 20], [5, 30]]);
+    });
+  });
+
+  describe('Should test shared inputs', () => {
+    let sharedFixture: ComponentFixture<SharedInputsTestComponent>;
+    let shared: SharedInputsTestComponent;
+    let element: SVGGraphicsElement;
+
+    beforeEach(() => {
+      sharedFixture = TestBed.createComponent(SharedInputsTestComponent);
+      shared = sharedFixture.componentInstance;
+      element = sharedFixture.nativeElement.querySelector('polygon');
+    });
+
+    it('Should set border and opacity of the polygon', () => {
+      expect(element.getAttribute('stroke')).toEqual('#ff0000');
+      expect(element.getAttribute('stroke-width')).toEqual('2');
+      expect(element.getAttribute('opacity')).toEqual('0.5');
+
+      shared.borderSize = 4;
+      shared.opacity = null;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('stroke-width')).toEqual('4');
+      expect(element.getAttribute('opacity')).toBeNull();
+    });
+
+    it('Should rotate the polygon around the center of its box and translate it', () => {
+      const box = element.getBBox();
+      const center = new DOMPoint(box.x + box.width / 2, box.y + box.height / 2);
+
+      shared.rotate = 90;
+      shared.translateX = 5;
+      sharedFixture.detectChanges();
+
+      const matrix = element.transform.baseVal.consolidate().matrix;
+      const transformed = center.matrixTransform(matrix);
+      expect(matrix.a).toBeCloseTo(0);
+      expect(matrix.b).toBeCloseTo(1);
+      expect(transformed.x).toBeCloseTo(center.x + 5);
+      expect(transformed.y).toBeCloseTo(center.y);
+    });
+
+    it('Should animate rotation of the polygon', async () => {
+      shared.animate = { duration: 30, easing: '-' };
+      sharedFixture.detectChanges();
+      const animationEnd = new Promise<void>((resolve) => shared.polygonDirective.animationEnd.subscribe(() => resolve()));
+
+      shared.rotate = 90;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('transform')).toBeNull();
+
+      await animationEnd;
+
+      expect(shared.polygonDirective.getElement().transform().rotate).toBeCloseTo(90);
+    });
+  });
 });
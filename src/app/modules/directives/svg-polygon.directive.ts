@@ -1,92 +1,67 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, ElementRef } from '@angular/core';
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
  */
-import { Polygon, PointArrayAlias } from '@svgdotjs/svg.js';
+import { ArrayXY, PointArrayAlias } from '@svgdotjs/svg.js';
 
 /**
  * Import custom components.
  */
 import { SvgContainerComponent } from '../components';
-import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgPolygonBaseDirective } from './svg-polygon-base.directive';
 
 @Directive({
   selector: 'svg-polygon'
 })
-export class SvgPolygonDirective extends SvgBaseDirective {
-  /**
-   * Globally used variables within the directive.
-   */
-  override _shape: Polygon | null = null;
-
+export class SvgPolygonDirective extends SvgPolygonBaseDirective {
   /**
    * Import variables for the polygon directive.
    */
   @Input() points: PointArrayAlias | null = []; // Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]].
-  @Input() borderSize = 0; // Size of the border.
-  @Input() borderColor = '#000'; // Color of the polygon.
-  @Input() fill = '#000'; // Color of the polygon body.
+  @Output() pointsChange: EventEmitter<PointArrayAlias | null> = new EventEmitter(); // Emits new points after drag.
 
   /**
    * Create SVG Polygon directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
-    _elRef: ElementRef
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
-   * Update polygon object within the SVG container.
+   * Retrieves vertices of the polygon from the points input.
+   * @returns Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]], or null if polygon should not be drawn.
    */
-  override updateShape(): void {
-    const polygon = this._shape;
-    const points = this.points;
-    if (!polygon || !points) {
-      return;
-    }
-    polygon
-      .plot(points) // Update the polygon object
-      .fill(this.fill) // Fill color of the polygon
-      .stroke({ color: this.borderColor, width: this.borderSize }); // Set the border for the polygon
-
-    this.addRemoveClasses(this.classes);
-    // Let's set element in a correct position
-    this.setCorrectPosition();
+  protected override getPoints(): PointArrayAlias | null {
+    return this.points;
   }
 
   /**
-   * Create polygon object within the SVG container.
+   * Moves the polygon while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
    */
-  override createShape(): void {
-    const container = this._svgContainer.getContainer();
-    const points = this.points;
-    if (!container || !points) {
-      return;
+  protected override shiftPosition(dx: number, dy: number): void {
+    if (this._shape) {
+      this.points = Array.from(this._shape.array(), ([x, y]): ArrayXY => [x + dx, y + dy]);
     }
-    this._shape = container
-      .polygon(points) // Create the polygon object
-      .fill(this.fill) // Fill color of the polygon
-      .stroke({ color: this.borderColor, width: this.borderSize }) // Set the border for the polygon
-      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
-      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
-      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
-      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
-
-    // Let's set element in a correct position
-    this.setCorrectPosition();
-
-    // Add classes to the polygon
-    this.addRemoveClasses(this.classes);
+  }
 
-    // Let's output the polygon element
-    this.onInitialize.emit(this._shape);
+  /**
+   * Emits new points of the polygon after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.pointsChange.emit(this.points);
   }
 }
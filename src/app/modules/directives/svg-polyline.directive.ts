@@ -1,18 +1,20 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, ElementRef } from '@angular/core';
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
  */
-import { Polyline, PointArrayAlias } from '@svgdotjs/svg.js';
+import { Polyline, ArrayXY, PointArrayAlias } from '@svgdotjs/svg.js';
 
 /**
  * Import custom components.
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgMarkerPosition, SvgMarkerPreset } from '../util/marker-preset.util';
 
 @Directive({
   selector: 'svg-polyline'
@@ -27,20 +29,23 @@ export class SvgPolylineDirective extends SvgBaseDirective {
    * Input variables for the polyline directive.
    */
   @Input() points: PointArrayAlias | null = null; // Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]].
-  @Input() borderSize = 0; // Size of the border.
-  @Input() borderColor = '#000'; // Color of the polyline.
-  @Input() fill = '#000'; // Color of the polyline body
+  @Input() markerStart: SvgMarkerPreset | string | null = null; // Marker on the first vertex, either a preset or 'url(#id)'.
+  @Input() markerMid: SvgMarkerPreset | string | null = null; // Marker on the vertices between the first and the last one.
+  @Input() markerEnd: SvgMarkerPreset | string | null = null; // Marker on the last vertex, either a preset or 'url(#id)'.
+  @Output() pointsChange: EventEmitter<PointArrayAlias | null> = new EventEmitter(); // Emits new points after drag.
 
   /**
    * Create SVG Polyline directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
-    _elRef: ElementRef
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -50,10 +55,8 @@ export class SvgPolylineDirective extends SvgBaseDirective {
     if (!this._shape || !this.points) {
       return;
     }
-    this._shape
-      .plot(this.points) // Update the polyline object
-      .fill(this.fill) // Fill color of the polyline
-      .stroke({ color: this.borderColor, width: this.borderSize }); // Set the border for the polyline
+    this._shape.plot(this.points); // Update the polyline object
+    this.setPaint(); // Set the fill and border for the polyline
 
     // Add classes to the polyline
     this.addRemoveClasses(this.classes);
@@ -66,20 +69,21 @@ export class SvgPolylineDirective extends SvgBaseDirective {
    * Create polyline object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     const points = this.points;
     if (!container || !points) {
       return;
     }
     this._shape = container
       .polyline(points) // Create the polyline object
-      .fill(this.fill) // Fill color of the polyline
-      .stroke({ color: this.borderColor, width: this.borderSize }) // Set the border for the polyline
       .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
       .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
       .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
       .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
 
+    // Set the fill and border for the polyline
+    this.setPaint();
+
     // Let's set element in a correct position
     this.setCorrectPosition();
 
@@ -89,4 +93,30 @@ export class SvgPolylineDirective extends SvgBaseDirective {
     // Let's output the polyline element
     this.onInitialize.emit(this._shape);
   }
+
+  /**
+   * Retrieves markers, which are drawn on the vertices of the polyline.
+   * @returns Marker input values for each of the marker positions.
+   */
+  protected override getMarkers(): Partial<Record<SvgMarkerPosition, string | null>> {
+    return { start: this.markerStart, mid: this.markerMid, end: this.markerEnd };
+  }
+
+  /**
+   * Moves the polyline while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    if (this._shape) {
+      this.points = Array.from(this._shape.array(), ([x, y]): ArrayXY => [x + dx, y + dy]);
+    }
+  }
+
+  /**
+   * Emits new points of the polyline after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.pointsChange.emit(this.points);
+  }
 }
@@ -0,0 +1,112 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgRadialGradientDirective } from './svg-radial-gradient.directive';
+import { SvgStopDirective } from './svg-stop.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-radial-gradient gradientId="test-gradient" [cx]="cx" [r]="r" [fx]="fx"
+        gradientUnits="userSpaceOnUse" gradientTransform="rotate(45)"
+        *ngIf="createGradient">
+        <svg-stop [offset]="0" color="#fff"></svg-stop>
+        <svg-stop [offset]="1" color="#000"></svg-stop>
+      </svg-radial-gradient>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createGradient = true;
+  public cx: number | string | null = '50%';
+  public r: number | null = 20;
+  public fx: number | null = null;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+}
+
+describe('SVG Radial Gradient Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgRadialGradientDirective,
+        SvgStopDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the radial gradient with its attributes in defs', () => {
+    const gradient = html.querySelector('defs radialGradient');
+
+    expect(gradient.getAttribute('id')).toEqual('test-gradient');
+    expect(gradient.getAttribute('cx')).toEqual('50%');
+    expect(gradient.getAttribute('r')).toEqual('20');
+    expect(gradient.getAttribute('fx')).toBeNull();
+    expect(gradient.getAttribute('gradientUnits')).toEqual('userSpaceOnUse');
+    expect(gradient.getAttribute('gradientTransform')).toEqual('rotate(45)');
+    expect(gradient.querySelectorAll('stop').length).toEqual(2);
+  });
+
+  it('Should update the focal point', () => {
+    app.fx = 10;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('radialGradient').getAttribute('fx')).toEqual('10');
+  });
+
+  it('Should remove the gradient from defs on destroy', () => {
+    app.createGradient = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('radialGradient')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgGradientDirective } from './svg-gradient.directive';
+
+@Directive({
+  selector: 'svg-radial-gradient',
+  providers: [
+    { provide: SvgGradientDirective, useExisting: forwardRef(() => SvgRadialGradientDirective) }
+  ]
+})
+export class SvgRadialGradientDirective extends SvgGradientDirective {
+  /**
+   * Import variables for the radial gradient directive.
+   */
+  @Input() cx: number | string | null = null; // Center of the end circle on x-axis.
+  @Input() cy: number | string | null = null; // Center of the end circle on y-axis.
+  @Input() r: number | string | null = null; // Radius of the end circle.
+  @Input() fx: number | string | null = null; // Center of the start circle (focal point) on x-axis.
+  @Input() fy: number | string | null = null; // Center of the start circle (focal point) on y-axis.
+  @Input() fr: number | string | null = null; // Radius of the start circle.
+
+  /**
+   * Create SVG Radial Gradient directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves type of the gradient.
+   * @returns Radial type.
+   */
+  protected getType(): 'radial' {
+    return 'radial';
+  }
+
+  /**
+   * Retrieves attributes of the gradient circles.
+   * @returns Object with attribute values.
+   */
+  protected getGeometry(): { [attribute: string]: number | string | null } {
+    return { cx: this.cx, cy: this.cy, r: this.r, fx: this.fx, fy: this.fy, fr: this.fr };
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
 import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
 
 /**
@@ -14,6 +14,11 @@ import { SvgContainerComponent } from 'app/modules/components';
  */
 import { SvgRectDirective } from './svg-rect.directive';
 
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
+
 // Let's mock component that uses the directive
 @Component({
   template: `
@@ -21,6 +26,14 @@ import { SvgRectDirective } from './svg-rect.directive';
       <svg-rect [height]="height" [width]="width" [color]="color"
         [rx]="rx" [ry]="ry"
         [x]="x" [y]="y" [classes]="classes"
+        [fill]="fill" [borderColor]="borderColor" [borderSize]="borderSize"
+        [opacity]="opacity" [fillOpacity]="fillOpacity" [strokeOpacity]="strokeOpacity"
+        [strokeDasharray]="strokeDasharray" [strokeLinecap]="strokeLinecap" [strokeLinejoin]="strokeLinejoin"
+        [rotate]="rotate" [scaleX]="scaleX" [translateX]="translateX" [origin]="origin"
+        [animate]="animate"
+        (animationStart)="animationCalled()"
+        (animationEnd)="animationCalled()"
+        (transformChange)="eventCalled()"
         (clickEvent)="eventCalled()"
         (doubleClickEvent)="eventCalled()"
         (mouseOverEvent)="eventCalled()"
@@ -43,6 +56,21 @@ class TestComponent implements OnInit {
   public rx = 0;
   public ry = 0;
   public classes = ['black-border'];
+  public fill: string | null = null;
+  public borderColor: string | null = null;
+  public borderSize: number | null = null;
+  public opacity: number | null = null;
+  public fillOpacity: number | null = null;
+  public strokeOpacity: number | null = null;
+  public strokeDasharray: number[] | null = null;
+  public strokeLinecap: string | null = null;
+  public strokeLinejoin: string | null = null;
+  public rotate = 0;
+  public scaleX = 1;
+  public translateX = 0;
+  public origin: string | null = null;
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgRectDirective) public rectDirective: SvgRectDirective;
 
   /**
    * Creates test component object instance.
@@ -63,6 +91,32 @@ class TestComponent implements OnInit {
    * Mock function for testing that event has been called.
    */
   eventCalled() {}
+
+  /**
+   * Mock function for testing that animation event has been called.
+   */
+  animationCalled() {}
+}
+
+// Let's mock component with the draggable rect, which keeps the position in sync
+@Component({
+  template: `
+    <svg-container containerId="drag-id">
+      <svg-rect [width]="10" [height]="10" [(x)]="x" [(y)]="y" [draggable]="true"
+        [dragAxis]="dragAxis" [dragBounds]="dragBounds" [snapToGrid]="snapToGrid"></svg-rect>
+    </svg-container>
+  `
+})
+class DragTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public x = 0;
+  public y = 0;
+  public dragAxis: 'x' | 'y' | null = null;
+  public dragBounds: { x: number, y: number, width: number, height: number } | null = null;
+  public snapToGrid = false;
+  @ViewChild(SvgRectDirective) public rectDirective: SvgRectDirective;
 }
 
 describe('SVG Rect Directive', () => {
@@ -76,6 +130,7 @@ describe('SVG Rect Directive', () => {
       declarations: [
         SvgContainerComponent,
         TestComponent,
+        DragTestComponent,
         SvgRectDirective
       ],
       providers: [
@@ -235,6 +290,283 @@ describe('SVG Rect Directive', () => {
       expect(rect.getAttribute('class')).toEqual('black-border');
     });
 
+    describe('Should test paint changes', () => {
+      it('Should not set border and opacity attributes by default', () => {
+        const rect = html.querySelector('rect');
+
+        expect(rect.getAttribute('stroke')).toBeNull();
+        expect(rect.getAttribute('stroke-width')).toBeNull();
+        expect(rect.getAttribute('opacity')).toBeNull();
+      });
+
+      it('Should set border, opacity and dash attributes', () => {
+        app.borderColor = '#f00';
+        app.borderSize = 3;
+        app.opacity = 0.5;
+        app.fillOpacity = 0.4;
+        app.strokeOpacity = 0.3;
+        app.strokeDasharray = [5, 2];
+        app.strokeLinecap = 'round';
+        app.strokeLinejoin = 'bevel';
+
+        fixture.detectChanges();
+
+        const rect = html.querySelector('rect');
+        expect(rect.getAttribute('stroke')).toEqual('#ff0000');
+        expect(rect.getAttribute('stroke-width')).toEqual('3');
+        expect(rect.getAttribute('opacity')).toEqual('0.5');
+        expect(rect.getAttribute('fill-opacity')).toEqual('0.4');
+        expect(rect.getAttribute('stroke-opacity')).toEqual('0.3');
+        expect(rect.getAttribute('stroke-dasharray')).toEqual('5 2');
+        expect(rect.getAttribute('stroke-linecap')).toEqual('round');
+        expect(rect.getAttribute('stroke-linejoin')).toEqual('bevel');
+      });
+
+      it('Should use black border if only border size is set', () => {
+        app.borderSize = 2;
+
+        fixture.detectChanges();
+
+        expect(html.querySelector('rect').getAttribute('stroke')).toEqual('#000000');
+      });
+
+      it('Should use fill over color if it is set', () => {
+        app.fill = '#222';
+
+        fixture.detectChanges();
+
+        expect(html.querySelector('rect').getAttribute('fill')).toEqual('#222222');
+      });
+
+      it('Should remove attributes when inputs are reset', () => {
+        app.opacity = 0.5;
+        fixture.detectChanges();
+
+        app.opacity = null;
+        fixture.detectChanges();
+
+        expect(html.querySelector('rect').getAttribute('opacity')).toBeNull();
+      });
+    });
+
+    describe('Should test transform changes', () => {
+      it('Should not set transform attribute by default', () => {
+        expect(html.querySelector('rect').getAttribute('transform')).toBeNull();
+      });
+
+      it('Should rotate around the center of the rect and keep its position', () => {
+        app.rotate = 90;
+        app.x = 10;
+
+        fixture.detectChanges();
+
+        const rect = html.querySelector('rect');
+        const matrix = (rect as SVGGraphicsElement).transform.baseVal.consolidate().matrix;
+        expect(rect.getAttribute('x')).toEqual('10');
+        expect(matrix.a).toBeCloseTo(0);
+        expect(matrix.b).toBeCloseTo(1);
+
+        // Center of the rect must stay in place
+        const center = new DOMPoint(15, 5).matrixTransform(matrix);
+        expect(center.x).toBeCloseTo(15);
+        expect(center.y).toBeCloseTo(5);
+      });
+
+      it('Should use custom origin and combine scale with translation', () => {
+        app.scaleX = 2;
+        app.translateX = 5;
+        app.origin = 'top left';
+
+        fixture.detectChanges();
+
+        const matrix = (html.querySelector('rect') as SVGGraphicsElement).transform.baseVal.consolidate().matrix;
+        expect(matrix.a).toBeCloseTo(2);
+        expect(matrix.e).toBeCloseTo(5);
+      });
+
+      it('Should apply transform and emit transformChange on applyTransform', () => {
+        spyOn(app, 'eventCalled');
+        spyOn(app.rectDirective.transformChange, 'emit').and.callThrough();
+
+        app.rectDirective.applyTransform({ rotate: 45 });
+
+        expect(html.querySelector('rect').getAttribute('transform')).not.toBeNull();
+        expect(app.rectDirective.transformChange.emit).toHaveBeenCalledWith(jasmine.objectContaining({ rotate: 45, scaleX: 1 }));
+        expect(app.eventCalled).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('Should test dragging', () => {
+      let dragFixture: ComponentFixture<DragTestComponent>;
+      let dragApp: DragTestComponent;
+
+      /**
+       * Drags the rect by given distance in pixels.
+       * @param element - Host element of the fixture, which contains the rect.
+       * @param dx - Distance to drag on x-axis.
+       * @param dy - Distance to drag on y-axis.
+       */
+      function dragRect(element: HTMLElement, dx: number, dy: number): void {
+        const rect = element.querySelector('rect');
+        const { left, top } = rect.getBoundingClientRect();
+        rect.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 1, clientY: top + 1, button: 0, bubbles: true }));
+        document.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 1 + dx, clientY: top + 1 + dy }));
+        document.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 1 + dx, clientY: top + 1 + dy }));
+      }
+
+      beforeEach(() => {
+        dragFixture = TestBed.createComponent(DragTestComponent);
+        dragApp = dragFixture.componentInstance;
+      });
+
+      it('Should not move the rect if it is not draggable', () => {
+        dragRect(html, 20, 10);
+        fixture.detectChanges();
+
+        expect(html.querySelector('rect').getAttribute('x')).toEqual('0');
+      });
+
+      it('Should move the rect and update bound position after the drag', () => {
+        spyOn(dragApp.rectDirective.dragStart, 'emit');
+        spyOn(dragApp.rectDirective.dragEnd, 'emit');
+
+        dragRect(dragFixture.nativeElement, 20, 10);
+        dragFixture.detectChanges();
+
+        const rect = dragFixture.nativeElement.querySelector('rect');
+        expect(Number(rect.getAttribute('x'))).toBeCloseTo(20);
+        expect(Number(rect.getAttribute('y'))).toBeCloseTo(10);
+        expect(dragApp.x).toBeCloseTo(20);
+        expect(dragApp.y).toBeCloseTo(10);
+        expect(dragApp.rectDirective.dragStart.emit).toHaveBeenCalledTimes(1);
+        expect(dragApp.rectDirective.dragEnd.emit).toHaveBeenCalledWith(jasmine.objectContaining({ dx: 20, dy: 10 }));
+      });
+
+      it('Should lock the axis', () => {
+        dragApp.dragAxis = 'x';
+        dragFixture.detectChanges();
+
+        dragRect(dragFixture.nativeElement, 20, 10);
+        dragFixture.detectChanges();
+
+        expect(dragApp.x).toBeCloseTo(20);
+        expect(dragApp.y).toEqual(0);
+      });
+
+      it('Should snap the rect to the grid', () => {
+        dragApp.snapToGrid = true;
+        dragFixture.detectChanges();
+
+        dragRect(dragFixture.nativeElement, 13, 17);
+        dragFixture.detectChanges();
+
+        expect(dragApp.x).toEqual(10);
+        expect(dragApp.y).toEqual(20);
+      });
+
+      it('Should keep the rect within the bounds', () => {
+        dragApp.dragBounds = { x: 0, y: 0, width: 30, height: 30 };
+        dragFixture.detectChanges();
+
+        dragRect(dragFixture.nativeElement, 50, -10);
+        dragFixture.detectChanges();
+
+        expect(dragApp.x).toEqual(20);
+        expect(dragApp.y).toEqual(0);
+      });
+    });
+
+    describe('Should test animations', () => {
+      /**
+       * Waits until the animation of the rect ends.
+       * @returns Promise, which resolves once animationEnd is emitted.
+       */
+      function animationEnd(): Promise<void> {
+        return new Promise((resolve) => {
+          const subscription = app.rectDirective.animationEnd.subscribe(() => {
+            subscription.unsubscribe();
+            resolve();
+          });
+        });
+      }
+
+      beforeEach(() => {
+        app.animate = { duration: 30, easing: '-' };
+        fixture.detectChanges();
+      });
+
+      it('Should tween changed geometry and color from the previous values', async () => {
+        app.width = 30;
+        app.color = '#f00';
+
+        fixture.detectChanges();
+
+        const rect = html.querySelector('rect');
+        expect(rect.getAttribute('width')).toEqual('10');
+        expect(rect.getAttribute('fill')).toEqual('#000000');
+
+        await animationEnd();
+
+        expect(rect.getAttribute('width')).toEqual('30');
+        expect(rect.getAttribute('fill')).toEqual('#ff0000');
+      });
+
+      it('Should emit animationStart and animationEnd', async () => {
+        spyOn(app, 'animationCalled');
+        app.x = 20;
+
+        fixture.detectChanges();
+        await animationEnd();
+
+        expect(app.animationCalled).toHaveBeenCalledTimes(2);
+      });
+
+      it('Should change values, which can not be tweened, immediately', () => {
+        spyOn(app, 'animationCalled');
+        app.strokeLinecap = 'round';
+
+        fixture.detectChanges();
+
+        expect(html.querySelector('rect').getAttribute('stroke-linecap')).toEqual('round');
+        expect(app.animationCalled).not.toHaveBeenCalled();
+      });
+
+      it('Should tween transformation', async () => {
+        app.rotate = 90;
+
+        fixture.detectChanges();
+
+        expect(html.querySelector('rect').getAttribute('transform')).toBeNull();
+
+        await animationEnd();
+
+        expect(app.rectDirective.getElement().transform().rotate).toBeCloseTo(90);
+      });
+
+      it('Should run keyframes one after another', async () => {
+        spyOn(app, 'animationCalled');
+
+        app.rectDirective.animateKeyframes([
+          { attributes: { width: 40 }, duration: 20 },
+          { attributes: { width: 20 }, transform: { rotate: 45 }, duration: 20 }
+        ]);
+        await animationEnd();
+
+        expect(html.querySelector('rect').getAttribute('width')).toEqual('20');
+        expect(app.rectDirective.getElement().transform().rotate).toBeCloseTo(45);
+        expect(app.animationCalled).toHaveBeenCalledTimes(2);
+      });
+
+      it('Should stop the animation and leave the rect in its current state', () => {
+        app.width = 30;
+        fixture.detectChanges();
+
+        app.rectDirective.stopAnimation();
+
+        expect(html.querySelector('rect').getAttribute('width')).toEqual('10');
+      });
+    });
+
     describe('Should test class changes', () => {
       it('Should remove existing classes, if they were removed', () => {
         app.classes = [];
@@ -4,7 +4,10 @@
 import {
   Directive,
   Input,
-  ElementRef
+  ElementRef,
+  Optional,
+  EventEmitter,
+  Output
 } from '@angular/core';
 
 /**
@@ -17,6 +20,8 @@ import { Rect } from '@svgdotjs/svg.js';
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgBox } from '../models';
 
 @Directive({
   selector: 'svg-rect'
@@ -26,6 +31,7 @@ export class SvgRectDirective extends SvgBaseDirective {
    * Globally used variables within the directive.
    */
   override _shape: Rect | null = null;
+  override readonly resizable = true;
 
   /**
    * Import variables for the rectangular directive.
@@ -36,17 +42,23 @@ export class SvgRectDirective extends SvgBaseDirective {
   @Input() y = 0; // Starting point on y-axis.
   @Input() rx = 0; // Radius for x axis.
   @Input() ry = 0; // Radius for y axis.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the rectangular has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the rectangular has been dragged.
+  @Output() widthChange: EventEmitter<number> = new EventEmitter(); // Emits new width, after the rectangular has been resized.
+  @Output() heightChange: EventEmitter<number> = new EventEmitter(); // Emits new height, after the rectangular has been resized.
 
   /**
    * Create SVG Rect directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
-    _elRef: ElementRef
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
   }
 
   /**
@@ -72,7 +84,7 @@ export class SvgRectDirective extends SvgBaseDirective {
    * Create rectangular object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
@@ -100,8 +112,49 @@ export class SvgRectDirective extends SvgBaseDirective {
       return;
     }
     rect
-      .fill(this.color) // Update the color
       .radius(this.rx, this.ry) // Update the radius
       .move(this.x, this.y); // Update the coordinates
+
+    // Update the fill, border and opacity
+    this.setPaint();
+  }
+
+  /**
+   * Moves the rectangular while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the rectangular after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
+
+  /**
+   * Changes position and size of the rectangular while it is being resized.
+   * @param box - New bounding box of the rectangular.
+   */
+  protected override setBox(box: SvgBox): void {
+    this.x = box.x;
+    this.y = box.y;
+    this.width = box.width;
+    this.height = box.height;
+  }
+
+  /**
+   * Emits new position and size of the rectangular after it has been resized.
+   */
+  protected override emitBoxChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+    this.widthChange.emit(this.width);
+    this.heightChange.emit(this.height);
   }
 }
@@ -0,0 +1,172 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgRegularPolygonDirective } from './svg-regular-polygon.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-regular-polygon [(cx)]="cx" [(cy)]="cy" [radius]="radius" [sides]="sides" [rotation]="rotation"
+        [fill]="fill" [borderSize]="1" [classes]="classes" [draggable]="true"
+        (clickEvent)="eventCalled()"
+        (doubleClickEvent)="eventCalled()"
+        (mouseOverEvent)="eventCalled()"
+        (mouseOutEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createPolygon"></svg-regular-polygon>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createPolygon = true;
+  public cx = 50;
+  public cy = 50;
+  public radius = 50;
+  public sides = 4;
+  public rotation = 0;
+  public fill = '#111';
+  public classes = ['black-border'];
+  @ViewChild(SvgRegularPolygonDirective) public polygonDirective: SvgRegularPolygonDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Regular Polygon Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgRegularPolygonDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should not have points input and output, since the vertices of the regular polygon are computed', () => {
+    expect('points' in app.polygonDirective).toBeFalse();
+    expect('pointsChange' in app.polygonDirective).toBeFalse();
+  });
+
+  it('Should test that on destroying regular polygon, the polygon element is removed', () => {
+    expect(html.querySelector('polygon')).not.toBeNull();
+
+    fixture.destroy();
+
+    expect(html.querySelector('polygon')).toBeNull();
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should draw the vertices around the center, starting at 12 o\'clock', () => {
+      const polygon = html.querySelector('polygon');
+
+      expect(polygon.getAttribute('points')).toEqual('50,0 100,50 50,100 0,50');
+      expect(polygon.getAttribute('fill')).toEqual('#111111');
+      expect(polygon.getAttribute('stroke-width')).toEqual('1');
+      expect(polygon.getAttribute('class')).toEqual('black-border');
+    });
+
+    it('Should emit onInitialize on regular polygon creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createPolygon = false;
+
+      fixture.detectChanges();
+
+      app.createPolygon = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click, dblclick, mouseover and mouseout event handlers', () => {
+      spyOn(app, 'eventCalled');
+
+      const polygon = html.querySelector('polygon');
+      ['click', 'dblclick', 'mouseover', 'mouseout'].forEach((type) => polygon.dispatchEvent(new MouseEvent(type)));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should rotate the vertices clockwise', () => {
+      app.rotation = 45;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('polygon').getAttribute('points')).toEqual('85.355,14.645 85.355,85.355 14.645,85.355 14.645,14.645');
+    });
+
+    it('Should draw at least a triangle', () => {
+      app.sides = 2;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('polygon').getAttribute('points')).toEqual('50,0 93.301,75 6.699,75');
+    });
+
+    it('Should move the center and update bound center after the drag', () => {
+      const polygon = html.querySelector('polygon');
+      const { left, top } = polygon.getBoundingClientRect();
+      polygon.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 50, clientY: top + 50, button: 0 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 60, clientY: top + 70 }));
+      document.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 60, clientY: top + 70 }));
+      fixture.detectChanges();
+
+      expect(html.querySelector('polygon').getAttribute('points')).toEqual('60,20 110,70 60,120 10,70');
+      expect(app.cx).toEqual(60);
+      expect(app.cy).toEqual(70);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { PointArrayAlias } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgParent } from './svg-parent';
+import { SvgPolygonBaseDirective } from './svg-polygon-base.directive';
+import { regularPolygonPoints } from '../util/polygon-points.util';
+
+@Directive({
+  selector: 'svg-regular-polygon'
+})
+export class SvgRegularPolygonDirective extends SvgPolygonBaseDirective {
+  /**
+   * Import variables for the regular polygon directive.
+   */
+  @Input() cx = 0; // Center of the polygon on x-axis.
+  @Input() cy = 0; // Center of the polygon on y-axis.
+  @Input() radius = 0; // Distance from the center to the vertices.
+  @Input() sides = 3; // Number of sides, at least 3.
+  @Input() rotation = 0; // Clockwise rotation of the polygon in degrees, first vertex is at 12 o'clock without rotation.
+  @Output() cxChange: EventEmitter<number> = new EventEmitter(); // Emits new center on x-axis, after the polygon has been dragged.
+  @Output() cyChange: EventEmitter<number> = new EventEmitter(); // Emits new center on y-axis, after the polygon has been dragged.
+
+  /**
+   * Create SVG Regular Polygon directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Retrieves vertices of the regular polygon from its center, radius and number of sides.
+   * @returns Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]].
+   */
+  protected override getPoints(): PointArrayAlias {
+    return regularPolygonPoints(Number(this.cx), Number(this.cy), Number(this.radius), Number(this.sides), Number(this.rotation));
+  }
+
+  /**
+   * Moves the regular polygon while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.cx = Number(this.cx) + dx;
+    this.cy = Number(this.cy) + dy;
+  }
+
+  /**
+   * Emits new center of the regular polygon after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.cxChange.emit(this.cx);
+    this.cyChange.emit(this.cy);
+  }
+}
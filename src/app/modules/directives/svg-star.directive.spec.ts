@@ -0,0 +1,165 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgStarDirective } from './svg-star.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-star [(cx)]="cx" [(cy)]="cy" [innerRadius]="innerRadius" [outerRadius]="outerRadius" [numPoints]="numPoints"
+        [fill]="fill" [borderSize]="1" [classes]="classes" [draggable]="true"
+        (clickEvent)="eventCalled()"
+        (doubleClickEvent)="eventCalled()"
+        (mouseOverEvent)="eventCalled()"
+        (mouseOutEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createStar"></svg-star>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createStar = true;
+  public cx = 50;
+  public cy = 50;
+  public innerRadius = 20;
+  public outerRadius = 50;
+  public numPoints = 4;
+  public fill = '#111';
+  public classes = ['black-border'];
+  @ViewChild(SvgStarDirective) public starDirective: SvgStarDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Star Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgStarDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should not have points input and output, since the vertices of the star are computed', () => {
+    expect('points' in app.starDirective).toBeFalse();
+    expect('pointsChange' in app.starDirective).toBeFalse();
+  });
+
+  it('Should test that on destroying star, the polygon element is removed', () => {
+    expect(html.querySelector('polygon')).not.toBeNull();
+
+    fixture.destroy();
+
+    expect(html.querySelector('polygon')).toBeNull();
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should alternate the vertices between outer and inner radius, starting with the tip at 12 o\'clock', () => {
+      const polygon = html.querySelector('polygon');
+
+      expect(polygon.getAttribute('points'))
+        .toEqual('50,0 64.142,35.858 100,50 64.142,64.142 50,100 35.858,64.142 0,50 35.858,35.858');
+      expect(polygon.getAttribute('fill')).toEqual('#111111');
+      expect(polygon.getAttribute('stroke-width')).toEqual('1');
+      expect(polygon.getAttribute('class')).toEqual('black-border');
+    });
+
+    it('Should emit onInitialize on star creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createStar = false;
+
+      fixture.detectChanges();
+
+      app.createStar = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click, dblclick, mouseover and mouseout event handlers', () => {
+      spyOn(app, 'eventCalled');
+
+      const polygon = html.querySelector('polygon');
+      ['click', 'dblclick', 'mouseover', 'mouseout'].forEach((type) => polygon.dispatchEvent(new MouseEvent(type)));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should update the vertices, when number of points changes', () => {
+      app.numPoints = 5;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('polygon').getAttribute('points').split(' ').length).toEqual(10);
+    });
+
+    it('Should move the center and update bound center after the drag', () => {
+      const polygon = html.querySelector('polygon');
+      const { left, top } = polygon.getBoundingClientRect();
+      polygon.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 50, clientY: top + 50, button: 0 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 60, clientY: top + 70 }));
+      document.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 60, clientY: top + 70 }));
+      fixture.detectChanges();
+
+      expect(html.querySelector('polygon').getAttribute('points').split(' ')[0]).toEqual('60,20');
+      expect(app.cx).toEqual(60);
+      expect(app.cy).toEqual(70);
+    });
+  });
+});
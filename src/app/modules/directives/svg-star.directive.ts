@@ -0,0 +1,76 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { PointArrayAlias } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgParent } from './svg-parent';
+import { SvgPolygonBaseDirective } from './svg-polygon-base.directive';
+import { starPoints } from '../util/polygon-points.util';
+
+@Directive({
+  selector: 'svg-star'
+})
+export class SvgStarDirective extends SvgPolygonBaseDirective {
+  /**
+   * Import variables for the star directive.
+   */
+  @Input() cx = 0; // Center of the star on x-axis.
+  @Input() cy = 0; // Center of the star on y-axis.
+  @Input() innerRadius = 0; // Distance from the center to the inner vertices.
+  @Input() outerRadius = 0; // Distance from the center to the tips of the star.
+  @Input() numPoints = 5; // Number of the tips of the star, at least 2.
+  @Input() rotation = 0; // Clockwise rotation of the star in degrees, first tip is at 12 o'clock without rotation.
+  @Output() cxChange: EventEmitter<number> = new EventEmitter(); // Emits new center on x-axis, after the star has been dragged.
+  @Output() cyChange: EventEmitter<number> = new EventEmitter(); // Emits new center on y-axis, after the star has been dragged.
+
+  /**
+   * Create SVG Star directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Retrieves vertices of the star from its center, radii and number of the tips.
+   * @returns Array with points in format [[x, y], [x1, y1], [x2, y2], ..., [xn, yn]].
+   */
+  protected override getPoints(): PointArrayAlias {
+    return starPoints(
+      Number(this.cx), Number(this.cy), Number(this.innerRadius), Number(this.outerRadius), Number(this.numPoints), Number(this.rotation)
+    );
+  }
+
+  /**
+   * Moves the star while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.cx = Number(this.cx) + dx;
+    this.cy = Number(this.cy) + dy;
+  }
+
+  /**
+   * Emits new center of the star after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.cxChange.emit(this.cx);
+    this.cyChange.emit(this.cy);
+  }
+}
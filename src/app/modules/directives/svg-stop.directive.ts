@@ -0,0 +1,81 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { StopProperties } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom directives.
+ */
+import { SvgGradientDirective } from './svg-gradient.directive';
+
+@Directive({
+  selector: 'svg-stop'
+})
+export class SvgStopDirective implements OnInit, OnChanges, OnDestroy {
+  /**
+   * Import variables for the stop directive.
+   */
+  @Input() offset: number | string = 0; // Position of the stop, either between 0 and 1 or in percents, e.g. '50%'.
+  @Input() color = '#000'; // Color of the stop.
+  @Input() opacity: number | null = null; // Opacity of the stop, between 0 and 1.
+
+  /**
+   * Create SVG Stop directive.
+   * @param _gradient - Parent gradient directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    private _gradient: SvgGradientDirective,
+    private _elRef: ElementRef
+  ) {}
+
+  /**
+   * Retrieves properties of the stop element.
+   * @returns Stop properties object.
+   */
+  getProperties(): StopProperties {
+    return {
+      offset: this.offset,
+      color: this.color,
+      opacity: this.opacity ?? undefined
+    };
+  }
+
+  /**
+   * Retrieves host element of the directive, used to keep the stops in the template order.
+   * @returns Host DOM element.
+   */
+  getHostElement(): HTMLElement {
+    return this._elRef.nativeElement;
+  }
+
+  /**
+   * Adds the stop to the parent gradient.
+   */
+  ngOnInit(): void {
+    this._gradient.addStop(this);
+  }
+
+  /**
+   * Updates the parent gradient, when stop changes.
+   * @param changes - Angular Simple Changes object containing all the changes.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    const firstChange = Object.values(changes).every((change) => change.firstChange);
+    if (!firstChange) {
+      this._gradient.updateStops();
+    }
+  }
+
+  /**
+   * Removes the stop from the parent gradient.
+   */
+  ngOnDestroy(): void {
+    this._gradient.removeStop(this);
+  }
+}
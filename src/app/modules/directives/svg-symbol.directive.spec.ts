@@ -0,0 +1,149 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgSymbolDirective } from './svg-symbol.directive';
+import { SvgCircleDirective } from './svg-circle.directive';
+import { SvgPathDirective } from './svg-path.directive';
+import { SvgUseDirective } from './svg-use.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-symbol symbolId="test-pin" [viewBox]="viewBox" [preserveAspectRatio]="preserveAspectRatio"
+        (onInitialize)="eventCalled()"
+        *ngIf="createSymbol">
+        <svg-path path="M12,0 C5,0 0,5 0,12 C0,20 12,32 12,32 C12,32 24,20 24,12 C24,5 19,0 12,0 Z"
+          color="currentColor" [borderSize]="null"></svg-path>
+        <svg-circle [x]="8" [y]="8" [diameter]="8" color="#fff" *ngIf="createDot"></svg-circle>
+      </svg-symbol>
+      <svg-use symbolId="test-pin" [width]="24" [height]="32" color="#f00"></svg-use>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createSymbol = true;
+  public createDot = true;
+  public viewBox = [0, 0, 24, 32];
+  public preserveAspectRatio: string | null = null;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Symbol Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgSymbolDirective,
+        SvgCircleDirective,
+        SvgPathDirective,
+        SvgUseDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should create the symbol with its nested shapes in defs', () => {
+    const symbol = html.querySelector('defs symbol');
+
+    expect(symbol.getAttribute('id')).toEqual('test-pin');
+    expect(symbol.getAttribute('viewBox')).toEqual('0 0 24 32');
+    expect(symbol.children[0].tagName).toEqual('path');
+    expect(symbol.children[0].getAttribute('fill')).toEqual('currentColor');
+    expect(symbol.children[1].tagName).toEqual('circle');
+  });
+
+  it('Should let use elements reference the symbol by id', () => {
+    expect(html.querySelector('use').getAttribute('href')).toEqual('#test-pin');
+  });
+
+  it('Should emit onInitialize on symbol creation', () => {
+    spyOn(app, 'eventCalled');
+    app.createSymbol = false;
+
+    fixture.detectChanges();
+
+    app.createSymbol = true;
+
+    fixture.detectChanges();
+
+    expect(app.eventCalled).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should remove the symbol from defs on destroy', () => {
+    app.createSymbol = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('symbol')).toBeNull();
+  });
+
+  it('Should remove destroyed nested shape from the symbol', () => {
+    app.createDot = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('symbol circle')).toBeNull();
+  });
+
+  it('Should update symbol attributes and remove viewbox if it is not set', () => {
+    app.viewBox = [];
+    app.preserveAspectRatio = 'xMinYMin meet';
+
+    fixture.detectChanges();
+
+    const symbol = html.querySelector('symbol');
+    expect(symbol.getAttribute('viewBox')).toBeNull();
+    expect(symbol.getAttribute('preserveAspectRatio')).toEqual('xMinYMin meet');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, forwardRef } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Container, Symbol as SvgSymbol } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgDefinitionDirective } from './svg-definition.directive';
+import { SvgParent } from './svg-parent';
+
+@Directive({
+  selector: 'svg-symbol',
+  providers: [
+    { provide: SvgParent, useExisting: forwardRef(() => SvgSymbolDirective) }
+  ]
+})
+export class SvgSymbolDirective extends SvgDefinitionDirective<SvgSymbol> implements SvgParent {
+  /**
+   * Input variables for the symbol directive.
+   */
+  @Input() symbolId = ''; // Id of the symbol, which svg-use elements use to reference it.
+  @Input() viewBox: number[] = []; // Viewbox of the symbol contents in format [x, y, width, height].
+  @Input() preserveAspectRatio: string | null = null; // How the viewbox is fitted into the size of the use element.
+
+  /**
+   * Create SVG Symbol directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent
+  ) {
+    super(_svgContainer);
+  }
+
+  /**
+   * Retrieves symbol element, to which nested directives add their elements.
+   * @returns Symbol instance, or null if it is not created yet.
+   */
+  getContainer(): Container | null {
+    return this._definition;
+  }
+
+  /**
+   * Creates the symbol in defs.
+   * @param container - Root container of the svg.
+   * @returns Symbol instance.
+   */
+  protected override createDefinition(container: Container): SvgSymbol {
+    return container.defs().symbol();
+  }
+
+  /**
+   * Retrieves id of the symbol.
+   * @returns Id of the symbol.
+   */
+  protected override getId(): string {
+    return this.symbolId;
+  }
+
+  /**
+   * Retrieves viewbox and aspect ratio of the symbol.
+   * @returns Symbol attributes.
+   */
+  protected override getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      viewBox: this.viewBox.length === 4 ? this.viewBox.join(' ') : null,
+      preserveAspectRatio: this.preserveAspectRatio
+    };
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgTextPathDirective } from './svg-text-path.directive';
+import { SvgPathDirective } from './svg-path.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-text-path [text]="text" [path]="useReference ? arcPath : path" [size]="size" [color]="color"
+        [startOffset]="startOffset" [side]="side" [method]="method" textAnchor="middle" [classes]="classes"
+        (clickEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createTextPath"></svg-text-path>
+      <svg-path #arcPath="svgPath" path="M0,50 Q50,0 100,50" [borderSize]="1"></svg-path>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createTextPath = true;
+  public useReference = false;
+  public text = 'Curved label';
+  public path = 'M0,100 A50,50 0 0 1 100,100';
+  public size = 10;
+  public color = '#000';
+  public startOffset: number | string | null = '50%';
+  public side: 'left' | 'right' | null = null;
+  public method: 'align' | 'stretch' | null = null;
+  public classes = ['black-border'];
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+// Let's mock component, which removes the referenced path
+@Component({
+  template: `
+    <svg-container containerId="reference-id">
+      <svg-text-path text="Curved label" [path]="pathDirective"></svg-text-path>
+      <svg-path path="M0,50 Q50,0 100,50" *ngIf="createPath"></svg-path>
+    </svg-container>
+  `
+})
+class ReferenceTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createPath = true;
+  public pathDirective: SvgPathDirective | null = null;
+}
+
+describe('SVG Text Path Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        ReferenceTestComponent,
+        SvgTextPathDirective,
+        SvgPathDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  /**
+   * Retrieves the path, which the text path references.
+   * @returns Referenced path element, or null if it does not exist.
+   */
+  function getTrack(): Element | null {
+    const href = html.querySelector('textPath').getAttribute('href');
+    return html.querySelector(href);
+  }
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should test that on destroying text path, the text and its inline path are removed', () => {
+    expect(html.querySelector('text')).not.toBeNull();
+
+    app.createTextPath = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('text')).toBeNull();
+    expect(html.querySelector('defs path')).toBeNull();
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should render the text along the inline path, which is created in defs', () => {
+      const text = html.querySelector('text');
+      const textPath = text.querySelector('textPath');
+
+      expect(text.getAttribute('font-size')).toEqual('10');
+      expect(text.getAttribute('text-anchor')).toEqual('middle');
+      expect(text.getAttribute('fill')).toEqual('#000000');
+      expect(text.getAttribute('class')).toEqual('black-border');
+      expect(textPath.textContent).toEqual('Curved label');
+      expect(textPath.getAttribute('startOffset')).toEqual('50%');
+      expect(getTrack().parentElement.tagName).toEqual('defs');
+      expect(getTrack().getAttribute('d')).toEqual('M0 100A50 50 0 0 1 100 100 ');
+    });
+
+    it('Should emit onInitialize on text path creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createTextPath = false;
+
+      fixture.detectChanges();
+
+      app.createTextPath = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click event handler', () => {
+      spyOn(app, 'eventCalled');
+
+      html.querySelector('text').dispatchEvent(new MouseEvent('click'));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should update the text and text path attributes', () => {
+      app.text = 'New label';
+      app.color = '#f00';
+      app.startOffset = 10;
+      app.side = 'right';
+      app.method = 'stretch';
+
+      fixture.detectChanges();
+
+      const textPath = html.querySelector('textPath');
+      expect(html.querySelector('text').getAttribute('fill')).toEqual('#ff0000');
+      expect(textPath.textContent).toEqual('New label');
+      expect(textPath.getAttribute('startOffset')).toEqual('10');
+      expect(textPath.getAttribute('side')).toEqual('right');
+      expect(textPath.getAttribute('method')).toEqual('stretch');
+    });
+
+    it('Should update the inline path without creating a new one', () => {
+      app.path = 'M0,0 L100,0';
+
+      fixture.detectChanges();
+
+      expect(html.querySelectorAll('defs path').length).toEqual(1);
+      expect(getTrack().getAttribute('d')).toEqual('M0 0L100 0 ');
+    });
+
+    it('Should render the text along the referenced svg-path and remove the inline path', () => {
+      app.useReference = true;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('defs path')).toBeNull();
+      expect(getTrack()).toBe(html.querySelector('svg > path'));
+    });
+
+    it('Should render only the text element, when path is not set', () => {
+      app.path = '';
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('text')).not.toBeNull();
+      expect(html.querySelector('textPath')).toBeNull();
+    });
+
+    it('Should remove the text path, when the referenced svg-path is destroyed', () => {
+      const referenceFixture = TestBed.createComponent(ReferenceTestComponent);
+      const element: HTMLElement = referenceFixture.nativeElement;
+      referenceFixture.componentInstance.pathDirective = referenceFixture.debugElement
+        .query(By.directive(SvgPathDirective)).injector.get(SvgPathDirective);
+      referenceFixture.detectChanges();
+
+      expect(element.querySelector('textPath')).not.toBeNull();
+
+      referenceFixture.componentInstance.createPath = false;
+      referenceFixture.detectChanges();
+
+      expect(element.querySelector('text')).not.toBeNull();
+      expect(element.querySelector('textPath')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, Optional } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Path, Text } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgPathDirective } from './svg-path.directive';
+
+@Directive({
+  selector: 'svg-text-path'
+})
+export class SvgTextPathDirective extends SvgBaseDirective<Text> {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: Text | null = null;
+  private _track: Path | null = null; // Path, which the text currently runs along.
+  private _inlineTrack: Path | null = null; // Path created in defs for the inline path string.
+
+  /**
+   * Import variables for the text path directive.
+   */
+  @Input() text = ''; // Text which needs to be displayed along the path.
+  @Input() path: string | SvgPathDirective | null = null; // Path data, or reference to the svg-path directive, e.g. [path]="pathRef".
+  @Input() size = 10; // Size of the text.
+  @Input() fontFamily: string | null = null; // Font family of the text, e.g. 'Arial, sans-serif'.
+  @Input() fontWeight: string | number | null = null; // Font weight of the text, e.g. 'bold' or 600.
+  @Input() textAnchor: 'start' | 'middle' | 'end' | null = null; // Alignment of the text relative to the start offset.
+  @Input() startOffset: number | string | null = null; // Distance along the path, where the text starts, e.g. 20 or '50%'.
+  @Input() side: 'left' | 'right' | null = null; // Side of the path, on which the text is rendered.
+  @Input() method: 'align' | 'stretch' | null = null; // Whether glyphs are only rotated, or also stretched along the path.
+
+  /**
+   * Create SVG Text Path directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Update text path object within the SVG container.
+   */
+  override updateShape(): void {
+    this.setAttributes();
+    this.addRemoveClasses(this.classes);
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create text path object within the SVG container.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    if (!container) {
+      return;
+    }
+    this._shape = container.text(''); // Create the text, which contains the text path
+    this.setAttributes();
+    this._shape
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the text path
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the text element
+    this.onInitialize.emit(this._shape);
+  }
+
+  /**
+   * Creates the text path and links the referenced path, once it is created.
+   */
+  override ngAfterViewChecked(): void {
+    super.ngAfterViewChecked();
+
+    // Referenced path may be created after the text, e.g. when it is placed later in the template,
+    // or removed before it, in which case the text path is removed as well
+    if (this.path instanceof SvgPathDirective && this.path.getElement() !== this._track) {
+      this.setAttributes();
+    }
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the text path.
+   */
+  override ngOnDestroy(): void {
+    super.ngOnDestroy();
+    this._inlineTrack?.remove();
+  }
+
+  /**
+   * Sets the text, font and the path, along which the text is rendered.
+   */
+  private setAttributes(): void {
+    const text = this._shape;
+    if (!text) {
+      return;
+    }
+    text
+      .clear()
+      .font({
+        size: this.size, // Update the size and font of the text
+        family: this.fontFamily,
+        weight: this.fontWeight,
+        anchor: this.textAnchor
+      });
+
+    this._track = this.getTrack(text);
+    if (this._track) {
+      text
+        .path(this._track)
+        .plain(this.text) // Text along the path is rendered on a single line
+        .attr({
+          startOffset: this.startOffset,
+          side: this.side,
+          method: this.method
+        });
+    }
+
+    // Update the color, border and opacity of the text
+    this.setPaint();
+  }
+
+  /**
+   * Retrieves the path, along which the text is rendered. Path for the inline path string is kept in defs.
+   * @param text - Text element of the directive.
+   * @returns Path element, or null if the path is not set or the referenced path is not created yet or has been removed.
+   */
+  private getTrack(text: Text): Path | null {
+    if (typeof this.path === 'string' && this.path) {
+      if (!this._inlineTrack) {
+        this._inlineTrack = text.defs().path(this.path);
+      }
+      return this._inlineTrack.plot(this.path);
+    }
+    this._inlineTrack?.remove();
+    this._inlineTrack = null;
+
+    const element = this.path instanceof SvgPathDirective ? this.path.getElement() : null;
+    return element instanceof Path ? element : null;
+  }
+}
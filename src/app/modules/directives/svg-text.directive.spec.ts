@@ -1,7 +1,7 @@
 /**
  * Import Angular libraries.
  */
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
 import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
 
 /**
@@ -13,6 +13,12 @@ import { SvgContainerComponent } from 'app/modules/components';
  * Import custom directives.
  */
 import { SvgTextDirective } from './svg-text.directive';
+import { SvgTspanDirective } from './svg-tspan.directive';
+
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from '../models';
 
 // Let's mock component that uses the directive
 @Component({
@@ -20,12 +26,17 @@ import { SvgTextDirective } from './svg-text.directive';
     <svg-container containerId="test-id">
       <svg-text [size]="size" [text]="text" [color]="color"
         [x]="x" [y]="y" [classes]="classes"
+        [lineHeight]="lineHeight" [maxWidth]="maxWidth" [maxLines]="maxLines" [ellipsis]="ellipsis"
+        [fontFamily]="fontFamily" [fontWeight]="fontWeight" [fontStyle]="fontStyle" [letterSpacing]="letterSpacing"
+        [textAnchor]="textAnchor" [dominantBaseline]="dominantBaseline" [textDecoration]="textDecoration" [glyphRotate]="glyphRotate"
         (clickEvent)="eventCalled()"
         (doubleClickEvent)="eventCalled()"
         (mouseOverEvent)="eventCalled()"
         (mouseOutEvent)="eventCalled()"
         (onInitialize)="eventCalled()"
-        *ngIf="createText"></svg-text>
+        *ngIf="createText">
+        <svg-tspan [text]="runText" color="#f00" fontWeight="bold" [newLine]="runNewLine" *ngIf="createRun"></svg-tspan>
+      </svg-text>
     </svg-container>
   `
 })
@@ -40,6 +51,22 @@ class TestComponent implements OnInit {
   public x = 0;
   public y = 0;
   public classes = ['black-border'];
+  public lineHeight = 1.3;
+  public maxWidth: number | null = null;
+  public maxLines: number | null = null;
+  public ellipsis = false;
+  public fontFamily: string | null = null;
+  public fontWeight: string | number | null = null;
+  public fontStyle: 'normal' | 'italic' | 'oblique' | null = null;
+  public letterSpacing: number | string | null = null;
+  public textAnchor: 'start' | 'middle' | 'end' | null = null;
+  public dominantBaseline: string | null = null;
+  public textDecoration: string | null = null;
+  public glyphRotate: number | number[] | null = null;
+  public createRun = false;
+  public runText = 'Run';
+  public runNewLine = false;
+  @ViewChild(SvgTextDirective) public textDirective: SvgTextDirective;
 
   /**
    * Creates test component object instance.
@@ -62,6 +89,29 @@ class TestComponent implements OnInit {
   eventCalled() {}
 }
 
+// Let's mock component with the text, which uses the inputs shared by all the shapes
+@Component({
+  template: `
+    <svg-container containerId="shared-id">
+      <svg-text text="Shared" [x]="10" [y]="10"
+        [borderColor]="borderColor" [borderSize]="borderSize" [opacity]="opacity"
+        [rotate]="rotate" [translateX]="translateX" [animate]="animate"></svg-text>
+    </svg-container>
+  `
+})
+class SharedInputsTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public borderColor = '#f00';
+  public borderSize: number | null = 2;
+  public opacity: number | null = 0.5;
+  public rotate = 0;
+  public translateX = 0;
+  public animate: SvgAnimation | null = null;
+  @ViewChild(SvgTextDirective) public textDirective: SvgTextDirective;
+}
+
 describe('SVG Text Directive', () => {
   let app: TestComponent;
   let fixture: ComponentFixture<TestComponent>;
@@ -73,7 +123,9 @@ describe('SVG Text Directive', () => {
       declarations: [
         SvgContainerComponent,
         TestComponent,
-        SvgTextDirective
+        SharedInputsTestComponent,
+        SvgTextDirective,
+        SvgTspanDirective
       ],
       providers: [
         { provide: ComponentFixtureAutoDetect, useValue: true }
@@ -228,6 +280,221 @@ describe('SVG Text Directive', () => {
       expect(text.querySelector('tspan').textContent).toEqual('Custom text');
     });
 
+    it('Should update attributes of the text, even if the text is empty', () => {
+      app.text = '';
+      app.color = '#f00';
+
+      fixture.detectChanges();
+
+      const text = html.querySelector('text');
+      expect(text.getAttribute('fill')).toEqual('#ff0000');
+      expect(text.querySelectorAll('tspan').length).toEqual(0);
+    });
+
+    describe('Should test multiple lines', () => {
+      /**
+       * Retrieves all the line elements of the text.
+       * @returns List of tspan elements.
+       */
+      function getLines(): SVGTSpanElement[] {
+        return Array.from(html.querySelectorAll('text tspan'));
+      }
+
+      it('Should render each line of the text as tspan with the line height', () => {
+        app.text = 'First\nSecond';
+        app.lineHeight = 2;
+
+        fixture.detectChanges();
+
+        const lines = getLines();
+        expect(lines.map((line) => line.textContent)).toEqual(['First', 'Second']);
+        expect(lines[0].getAttribute('dy')).toEqual('0');
+        expect(lines[1].getAttribute('dy')).toEqual('20');
+        expect(lines[1].getAttribute('x')).toEqual(html.querySelector('text').getAttribute('x'));
+      });
+
+      it('Should wrap lines, which are longer than max width, at word boundaries', () => {
+        app.text = 'ab ab ab ab ab ab';
+        app.maxWidth = 30;
+
+        fixture.detectChanges();
+
+        const lines = getLines();
+        expect(lines.length).toBeGreaterThan(1);
+        expect(lines.map((line) => line.textContent).join(' ')).toEqual('ab ab ab ab ab ab');
+        lines.forEach((line) => expect(line.getComputedTextLength()).toBeLessThanOrEqual(30));
+      });
+
+      it('Should not display lines over max lines', () => {
+        app.text = 'First\nSecond\nThird';
+        app.maxLines = 2;
+
+        fixture.detectChanges();
+
+        expect(getLines().map((line) => line.textContent)).toEqual(['First', 'Second']);
+      });
+
+      it('Should truncate the text with ellipsis, when it does not fit', () => {
+        app.text = 'ab ab ab ab ab ab';
+        app.maxWidth = 30;
+        app.maxLines = 1;
+        app.ellipsis = true;
+
+        fixture.detectChanges();
+
+        const lines = getLines();
+        expect(lines.length).toEqual(1);
+        expect(lines[0].textContent.endsWith('…')).toBeTrue();
+        expect(lines[0].getComputedTextLength()).toBeLessThanOrEqual(30);
+      });
+
+      it('Should truncate words longer than max width with ellipsis', () => {
+        app.text = 'Unbelievably long';
+        app.maxWidth = 30;
+        app.ellipsis = true;
+
+        fixture.detectChanges();
+
+        getLines().forEach((line) => {
+          expect(line.textContent.endsWith('…')).toBeTrue();
+          expect(line.getComputedTextLength()).toBeLessThanOrEqual(30);
+        });
+      });
+    });
+
+    describe('Should test font and alignment', () => {
+      it('Should set font attributes and remove them when reset to null', () => {
+        app.fontFamily = 'serif';
+        app.fontWeight = 600;
+        app.fontStyle = 'italic';
+        app.letterSpacing = 2;
+        app.textDecoration = 'underline';
+        app.glyphRotate = [10, 20];
+
+        fixture.detectChanges();
+
+        const text = html.querySelector('text');
+        expect(text.getAttribute('font-family')).toEqual('serif');
+        expect(text.getAttribute('font-weight')).toEqual('600');
+        expect(text.getAttribute('font-style')).toEqual('italic');
+        expect(text.getAttribute('letter-spacing')).toEqual('2');
+        expect(text.getAttribute('text-decoration')).toEqual('underline');
+        expect(text.getAttribute('rotate')).toEqual('10 20');
+        expect(text.getAttribute('transform')).toBeNull();
+
+        app.fontFamily = null;
+        app.glyphRotate = null;
+
+        fixture.detectChanges();
+
+        expect(text.getAttribute('font-family')).toBeNull();
+        expect(text.getAttribute('rotate')).toBeNull();
+      });
+
+      it('Should measure the rendered text', () => {
+        app.x = 5;
+        app.y = 10;
+
+        fixture.detectChanges();
+
+        const box = app.textDirective.measure();
+        expect(box.x).toBeCloseTo(5, 0);
+        expect(box.y).toBeCloseTo(10, 0);
+        expect(box.width).toBeGreaterThan(0);
+        expect(box.height).toBeGreaterThan(0);
+      });
+
+      it('Should place the center of the text on x, when text anchor is middle', () => {
+        app.x = 50;
+        app.textAnchor = 'middle';
+
+        fixture.detectChanges();
+
+        const box = app.textDirective.measure();
+        expect(html.querySelector('text').getAttribute('text-anchor')).toEqual('middle');
+        expect(box.x + box.width / 2).toBeCloseTo(50, 0);
+      });
+
+      it('Should place the end of the text on x, when text anchor is end', () => {
+        app.x = 50;
+        app.textAnchor = 'end';
+
+        fixture.detectChanges();
+
+        const box = app.textDirective.measure();
+        expect(box.x + box.width).toBeCloseTo(50, 0);
+      });
+
+      it('Should place the vertical center of the text on y, when dominant baseline is middle', () => {
+        app.y = 50;
+        app.dominantBaseline = 'middle';
+
+        fixture.detectChanges();
+
+        const box = app.textDirective.measure();
+        expect(html.querySelector('text').getAttribute('dominant-baseline')).toEqual('middle');
+        expect(box.y + box.height / 2).toBeCloseTo(50, 0);
+      });
+
+      it('Should place the baseline of the first line on y, when dominant baseline is alphabetic or hanging', () => {
+        app.y = 50;
+        app.dominantBaseline = 'alphabetic';
+
+        fixture.detectChanges();
+
+        const text = html.querySelector('text');
+        const alphabetic = app.textDirective.measure();
+        expect(Number(text.getAttribute('y'))).toBeCloseTo(50);
+        expect(alphabetic.y).toBeLessThan(50);
+        expect(alphabetic.y + alphabetic.height).toBeGreaterThan(50);
+
+        app.dominantBaseline = 'hanging';
+
+        fixture.detectChanges();
+
+        // Hanging baseline is near the top of the glyphs, so the text moves down
+        expect(Number(text.getAttribute('y'))).toBeCloseTo(50);
+        expect(app.textDirective.measure().y).toBeGreaterThan(alphabetic.y);
+      });
+    });
+
+    describe('Should test styled runs', () => {
+      beforeEach(() => {
+        app.createRun = true;
+        fixture.detectChanges();
+      });
+
+      it('Should add the run after the lines of the text with its own style', () => {
+        const tspans = html.querySelectorAll('text tspan');
+        const run = tspans[tspans.length - 1];
+
+        expect(tspans.length).toEqual(2);
+        expect(run.textContent).toEqual('Run');
+        expect(run.getAttribute('fill')).toEqual('#ff0000');
+        expect(run.getAttribute('font-weight')).toEqual('bold');
+        expect(run.getAttribute('dy')).toBeNull();
+      });
+
+      it('Should update the run and start it on a new line', () => {
+        app.runText = 'New run';
+        app.runNewLine = true;
+
+        fixture.detectChanges();
+
+        const run = html.querySelectorAll('text tspan')[1];
+        expect(run.textContent).toEqual('New run');
+        expect(run.getAttribute('dy')).toEqual('13');
+      });
+
+      it('Should remove the run, when it is destroyed', () => {
+        app.createRun = false;
+
+        fixture.detectChanges();
+
+        expect(html.querySelectorAll('text tspan').length).toEqual(1);
+      });
+    });
+
     describe('Should test class changes', () => {
       it('Should remove existing classes, if they were removed', () => {
         app.classes = [];
@@ -257,4 +524,60 @@ describe('SVG Text Directive', () => {
       });
     });
   });
+
+  describe('Should test shared inputs', () => {
+    let sharedFixture: ComponentFixture<SharedInputsTestComponent>;
+    let shared: SharedInputsTestComponent;
+    let element: SVGGraphicsElement;
+
+    beforeEach(() => {
+      sharedFixture = TestBed.createComponent(SharedInputsTestComponent);
+      shared = sharedFixture.componentInstance;
+      element = sharedFixture.nativeElement.querySelector('text');
+    });
+
+    it('Should set border and opacity of the text', () => {
+      expect(element.getAttribute('stroke')).toEqual('#ff0000');
+      expect(element.getAttribute('stroke-width')).toEqual('2');
+      expect(element.getAttribute('opacity')).toEqual('0.5');
+
+      shared.borderSize = 4;
+      shared.opacity = null;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('stroke-width')).toEqual('4');
+      expect(element.getAttribute('opacity')).toBeNull();
+    });
+
+    it('Should rotate the text around the center of its box and translate it', () => {
+      const box = element.getBBox();
+      const center = new DOMPoint(box.x + box.width / 2, box.y + box.height / 2);
+
+      shared.rotate = 90;
+      shared.translateX = 5;
+      sharedFixture.detectChanges();
+
+      const matrix = element.transform.baseVal.consolidate().matrix;
+      const transformed = center.matrixTransform(matrix);
+      expect(matrix.a).toBeCloseTo(0);
+      expect(matrix.b).toBeCloseTo(1);
+      expect(transformed.x).toBeCloseTo(center.x + 5);
+      expect(transformed.y).toBeCloseTo(center.y);
+    });
+
+    it('Should animate rotation of the text', async () => {
+      shared.animate = { duration: 30, easing: '-' };
+      sharedFixture.detectChanges();
+      const animationEnd = new Promise<void>((resolve) => shared.textDirective.animationEnd.subscribe(() => resolve()));
+
+      shared.rotate = 90;
+      sharedFixture.detectChanges();
+
+      expect(element.getAttribute('transform')).toBeNull();
+
+      await animationEnd;
+
+      expect(shared.textDirective.getElement().transform().rotate).toBeCloseTo(90);
+    });
+  });
 });
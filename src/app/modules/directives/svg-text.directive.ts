@@ -1,18 +1,33 @@
 /**
  * Import Angular libraries.
  */
-import { Directive, Input, ElementRef } from '@angular/core';
+import { Directive, Input, ElementRef, Optional, EventEmitter, Output } from '@angular/core';
 
 /**
  * Import third-party libraries.
  */
-import { Text } from '@svgdotjs/svg.js';
+import { Box, Text } from '@svgdotjs/svg.js';
 
 /**
  * Import custom components.
  */
 import { SvgContainerComponent } from '../components';
 import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgTspanDirective } from './svg-tspan.directive';
+import { SvgBox } from '../models';
+import { wrapText } from '../util/text-wrap.util';
+
+/**
+ * Position of the x coordinate within the text box for each text anchor, as a fraction of the box width.
+ */
+const ANCHOR_OFFSETS: { [anchor: string]: number } = { start: 0, middle: 0.5, end: 1 };
+
+/**
+ * Position of the y coordinate within the text box for the dominant baselines, which align the whole text box,
+ * as a fraction of the box height. Other baselines are taken from the font of the first line.
+ */
+const BASELINE_OFFSETS: { [baseline: string]: number } = { middle: 0.5, central: 0.5, 'text-after-edge': 1, ideographic: 1 };
 
 @Directive({
   selector: 'svg-text'
@@ -22,25 +37,71 @@ export class SvgTextDirective extends SvgBaseDirective {
    * Globally used variables within the directive.
    */
   override _shape: Text | null = null;
+  override readonly resizable = true;
+  override readonly fixedAspectRatio = true;
+  private _tspans: SvgTspanDirective[] = []; // Styled runs of the text, registered by the nested tspan directives.
 
   /**
    * Import variables for the text directive.
    */
-  @Input() text = ''; // Text which needs to be displayed.
-  @Input() x = 0; // Starting point on x-axis.
-  @Input() y = 0; // Starting point on y-axis.
+  @Input() text = ''; // Text which needs to be displayed, where each newline starts a new line.
+  @Input() x = 0; // Starting point on x-axis, or the anchor point if text anchor is set.
+  @Input() y = 0; // Starting point on y-axis, or the baseline point if dominant baseline is set.
   @Input() size = 10; // Size of the text.
+  @Input() fontFamily: string | null = null; // Font family of the text, e.g. 'Arial, sans-serif'.
+  @Input() fontWeight: string | number | null = null; // Font weight of the text, e.g. 'bold' or 600.
+  @Input() fontStyle: 'normal' | 'italic' | 'oblique' | null = null; // Font style of the text.
+  @Input() letterSpacing: number | string | null = null; // Spacing between the letters, e.g. 2 or '0.1em'.
+  @Input() textAnchor: 'start' | 'middle' | 'end' | null = null; // Alignment of the lines relative to x.
+  @Input() dominantBaseline: string | null = null; // Baseline of the text, e.g. 'middle' makes y the vertical center of the text,
+  // while 'alphabetic' or 'hanging' make it the baseline of the first line.
+  @Input() textDecoration: string | null = null; // Decoration of the text, e.g. 'underline' or 'line-through'.
+  @Input() glyphRotate: number | number[] | null = null; // Rotation of each glyph in degrees, while rotate rotates the whole text.
+  @Input() lineHeight = 1.3; // Height of the line as a multiple of the text size.
+  @Input() maxWidth: number | null = null; // Maximum width of the line, longer lines are wrapped at word boundaries.
+  @Input() maxLines: number | null = null; // Maximum number of lines, the rest of the text is not displayed.
+  @Input() ellipsis = false; // Indicator if lines exceeding max width or max lines should be truncated with ellipsis.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the text has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the text has been dragged.
+  @Output() sizeChange: EventEmitter<number> = new EventEmitter(); // Emits new size, after the text has been resized.
 
   /**
    * Create SVG Text directive.
    * @param _svgContainer - Host SVG Container Component object instance.
    * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
    */
   constructor(
     _svgContainer: SvgContainerComponent,
     _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
   ) {
-    super(_svgContainer, _elRef);
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Adds styled run to the text.
+   * @param tspan - Tspan directive object instance.
+   */
+  addTspan(tspan: SvgTspanDirective): void {
+    this._tspans.push(tspan);
+    this.updateTspans();
+  }
+
+  /**
+   * Removes styled run from the text.
+   * @param tspan - Tspan directive object instance.
+   */
+  removeTspan(tspan: SvgTspanDirective): void {
+    this._tspans = this._tspans.filter((added) => added !== tspan);
+    this.updateTspans();
+  }
+
+  /**
+   * Recreates lines and styled runs of the text.
+   */
+  updateTspans(): void {
+    this.setAttributes();
   }
 
   /**
@@ -56,7 +117,7 @@ export class SvgTextDirective extends SvgBaseDirective {
    * Create text object within the SVG container.
    */
   override createShape(): void {
-    const container = this._svgContainer.getContainer();
+    const container = this.getParentContainer();
     if (!container) {
       return;
     }
@@ -78,18 +139,132 @@ export class SvgTextDirective extends SvgBaseDirective {
     this.onInitialize.emit(this._shape);
   }
 
+  /**
+   * Sets lines, size and position of the text.
+   */
   setAttributes(): void {
     const _text = this._shape;
-    const text = this.text;
-    if (!_text || !text) {
+    if (!_text) {
       return;
     }
     _text
-      .text(text) // Update the text for the element
-      .fill(this.color) // Update the color of the text
       .font({
-        size: this.size // Update the size of the text
+        size: this.size, // Update the size and font of the text, before lines are measured
+        family: this.fontFamily,
+        weight: this.fontWeight,
+        style: this.fontStyle,
+        anchor: this.textAnchor
       })
-      .move(this.x, this.y); // Update the location of the text
+      .attr({
+        'letter-spacing': this.letterSpacing,
+        'dominant-baseline': this.dominantBaseline,
+        'text-decoration': this.textDecoration,
+        rotate: Array.isArray(this.glyphRotate) ? this.glyphRotate.join(' ') : this.glyphRotate
+      })
+      .leading(this.lineHeight) // Update the height of the lines
+      .text((added: Text) => this.addLines(added)); // Update the lines and runs of the text
+
+    // Update the location of the text, so that its anchor point is placed on x and y
+    const box = _text.bbox();
+    const offset = this.getAnchorOffset(box);
+    _text.move(this.x - offset.x, this.y - offset.y);
+
+    // Update the color, border and opacity of the text
+    this.setPaint();
+  }
+
+  /**
+   * Measures the rendered text, e.g. to lay out other elements around it.
+   * @returns Bounding box of the text without transformation, or null if the text is not created yet.
+   */
+  measure(): SvgBox | null {
+    const box = this._shape?.bbox();
+    return box ? { x: box.x, y: box.y, width: box.width, height: box.height } : null;
+  }
+
+  /**
+   * Retrieves position of the point, which is placed on x and y, within the text box.
+   * @param box - Bounding box of the text.
+   * @returns Distance of the point from the top left corner of the box.
+   */
+  private getAnchorOffset(box: Box): { x: number, y: number } {
+    const x = box.width * ANCHOR_OFFSETS[this.textAnchor ?? 'start'];
+    const fraction = BASELINE_OFFSETS[this.dominantBaseline ?? ''];
+    if (fraction !== undefined || !this.dominantBaseline || !this._shape) {
+      return { x, y: box.height * (fraction ?? 0) };
+    }
+
+    // First line starts at y attribute of the text, where its glyphs are aligned by the dominant baseline
+    return { x, y: Number(this._shape.attr('y')) - box.y };
+  }
+
+  /**
+   * Adds lines of the text, followed by the styled runs in the template order.
+   * @param text - Text element, which is being built.
+   */
+  private addLines(text: Text): void {
+    if (this.text) {
+      // Let's measure the lines with a temporary tspan, which inherits font of the text
+      const probe = text.tspan('');
+      const lines = wrapText(this.text, (line) => probe.plain(line).length(), this.maxWidth, this.maxLines, this.ellipsis);
+      probe.remove();
+
+      lines.forEach((line) => text.tspan(line).newLine());
+    }
+
+    const tspans = [...this._tspans].sort((a, b) =>
+      a.getHostElement().compareDocumentPosition(b.getHostElement()) === Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+    tspans.forEach((tspan) => {
+      const added = text.tspan(tspan.text).attr(tspan.getAttributes());
+      if (tspan.newLine) {
+        added.newLine();
+      }
+    });
+  }
+
+  /**
+   * Moves the text while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the text after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
+
+  /**
+   * Changes position and size of the text while it is being resized. Font size is scaled by the height of the box.
+   * @param box - New bounding box of the text.
+   */
+  protected override setBox(box: SvgBox): void {
+    const current = this._shape?.bbox();
+    if (!current) {
+      return;
+    }
+
+    // Anchor point moves within the box together with the scaled font
+    const scale = current.height ? box.height / current.height : 1;
+    const offset = this.getAnchorOffset(current);
+    this.size = this.size * scale;
+    this.x = box.x + offset.x * scale;
+    this.y = box.y + offset.y * scale;
+  }
+
+  /**
+   * Emits new position and size of the text after it has been resized.
+   */
+  protected override emitBoxChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+    this.sizeChange.emit(this.size);
   }
 }
@@ -0,0 +1,230 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgTransformerDirective } from './svg-transformer.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-rect [(x)]="x" [(y)]="y" [(width)]="width" [(height)]="height"></svg-rect>
+      <svg-transformer [target]="target" [keepAspectRatio]="keepAspectRatio" [rotatable]="rotatable"
+        (transformStart)="eventCalled()"
+        (transformEnd)="eventCalled()"
+        *ngIf="createTransformer"></svg-transformer>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createTransformer = true;
+  public x = 10;
+  public y = 10;
+  public width = 20;
+  public height = 20;
+  public target: SvgRectDirective | null = null;
+  public keepAspectRatio = false;
+  public rotatable = true;
+  @ViewChild(SvgRectDirective) public rectDirective: SvgRectDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Transformer Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  /**
+   * Drags the handle by given distance in pixels.
+   * @param handle - Handle element which should be dragged.
+   * @param dx - Distance to drag on x-axis.
+   * @param dy - Distance to drag on y-axis.
+   */
+  function dragHandle(handle: Element, dx: number, dy: number): void {
+    const { left, top, width, height } = handle.getBoundingClientRect();
+    const clientX = left + width / 2;
+    const clientY = top + height / 2;
+    handle.dispatchEvent(new PointerEvent('pointerdown', { clientX, clientY, button: 0, bubbles: true }));
+    document.dispatchEvent(new PointerEvent('pointermove', { clientX: clientX + dx, clientY: clientY + dy }));
+    document.dispatchEvent(new PointerEvent('pointerup', { clientX: clientX + dx, clientY: clientY + dy }));
+    fixture.detectChanges();
+  }
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgTransformerDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should hide the overlay if there is no target', () => {
+    const overlay = html.querySelector('.svg-overlay') as SVGGElement;
+
+    expect(overlay).not.toBeNull();
+    expect(overlay.style.display).toEqual('none');
+  });
+
+  it('Should remove the overlay on destroying transformer', () => {
+    app.createTransformer = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelector('.svg-overlay')).toBeNull();
+  });
+
+  describe('Should test overlay with target', () => {
+    beforeEach(() => {
+      app.target = app.rectDirective;
+      fixture.detectChanges();
+    });
+
+    it('Should draw outline and handles around the target', () => {
+      const overlay = html.querySelector('.svg-overlay') as SVGGElement;
+
+      expect(overlay.style.display).not.toEqual('none');
+      expect(overlay.querySelector('polygon').getAttribute('points')).toEqual('10,10 30,10 30,30 10,30');
+      expect(overlay.querySelectorAll('rect').length).toEqual(8);
+      expect(overlay.querySelector('circle').getAttribute('display')).toBeNull();
+    });
+
+    it('Should keep the overlay above the shapes', () => {
+      expect(html.querySelector('svg').lastElementChild.classList).toContain('svg-overlay');
+    });
+
+    it('Should hide rotate handle if transformer is not rotatable', () => {
+      app.rotatable = false;
+
+      fixture.detectChanges();
+
+      expect(html.querySelector('.svg-overlay circle').getAttribute('display')).toEqual('none');
+    });
+
+    it('Should resize the target with the bottom right handle and update bound values', () => {
+      spyOn(app, 'eventCalled');
+
+      dragHandle(html.querySelectorAll('.svg-overlay rect')[4], 10, 20);
+
+      expect(app.x).toBeCloseTo(10);
+      expect(app.y).toBeCloseTo(10);
+      expect(app.width).toBeCloseTo(30);
+      expect(app.height).toBeCloseTo(40);
+      expect(app.eventCalled).toHaveBeenCalledTimes(2);
+    });
+
+    it('Should resize the target with the top left handle and keep the opposite corner in place', () => {
+      dragHandle(html.querySelectorAll('.svg-overlay rect')[0], 5, -5);
+
+      expect(app.x).toBeCloseTo(15);
+      expect(app.y).toBeCloseTo(5);
+      expect(app.width).toBeCloseTo(15);
+      expect(app.height).toBeCloseTo(25);
+    });
+
+    it('Should keep aspect ratio while resizing', () => {
+      app.keepAspectRatio = true;
+      fixture.detectChanges();
+
+      dragHandle(html.querySelectorAll('.svg-overlay rect')[4], 10, 20);
+
+      expect(app.width).toBeCloseTo(40);
+      expect(app.height).toBeCloseTo(40);
+    });
+
+    it('Should rotate the target with the rotate handle', () => {
+      spyOn(app.rectDirective.transformChange, 'emit');
+
+      // Rotate handle is above the center, so moving it right of the center rotates by 90 degrees
+      dragHandle(html.querySelector('.svg-overlay circle'), 30, 30);
+
+      expect(app.rectDirective.rotate).toBeCloseTo(90);
+      expect(app.rectDirective.transformChange.emit).toHaveBeenCalled();
+    });
+
+    it('Should emit the rotation only once, when the rotate handle is released', () => {
+      spyOn(app.rectDirective.transformChange, 'emit');
+
+      const handle = html.querySelector('.svg-overlay circle');
+      const { left, top, width, height } = handle.getBoundingClientRect();
+      const clientX = left + width / 2;
+      const clientY = top + height / 2;
+      handle.dispatchEvent(new PointerEvent('pointerdown', { clientX, clientY, button: 0, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientX: clientX + 10, clientY: clientY + 10 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientX: clientX + 30, clientY: clientY + 30 }));
+
+      expect(app.rectDirective.getElement().node.getAttribute('transform')).not.toBeNull();
+      expect(app.rectDirective.transformChange.emit).not.toHaveBeenCalled();
+
+      document.dispatchEvent(new PointerEvent('pointerup', { clientX: clientX + 30, clientY: clientY + 30 }));
+
+      expect(app.rectDirective.transformChange.emit).toHaveBeenCalledTimes(1);
+      expect(app.rectDirective.rotate).toBeCloseTo(90);
+    });
+
+    it('Should keep the fixed corner in place while resizing rotated target', () => {
+      app.rectDirective.applyTransform({ rotate: 90 });
+      fixture.detectChanges();
+
+      const rect = app.rectDirective.getElement().node;
+      const before = rect.getBoundingClientRect();
+
+      // Top left corner of the rect is on the top right of the screen, after the rotation
+      dragHandle(html.querySelectorAll('.svg-overlay rect')[4], -10, 10);
+
+      const after = rect.getBoundingClientRect();
+      expect(after.right).toBeCloseTo(before.right);
+      expect(after.top).toBeCloseTo(before.top);
+      expect(app.width).toBeCloseTo(30);
+      expect(app.height).toBeCloseTo(30);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Import Angular libraries.
+ */
+import { AfterViewChecked, Directive, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { ArrayXY, Box, Circle, Container, Element, G, Line, Matrix, Point, Polygon, Rect } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBox, SvgEditableShape } from '../models';
+
+/**
+ * Positions of the resize handles relative to the box, where 0 is the start, 0.5 the middle and 1 the end of the box.
+ */
+const RESIZE_HANDLES: [number, number][] = [[0, 0], [0.5, 0], [1, 0], [1, 0.5], [1, 1], [0.5, 1], [0, 1], [0, 0.5]];
+const RESIZE_CURSORS = ['nwse-resize', 'ns-resize', 'nesw-resize', 'ew-resize', 'nwse-resize', 'ns-resize', 'nesw-resize', 'ew-resize'];
+const ROTATE_HANDLE_DISTANCE = 20; // Distance of the rotate handle from the top edge in pixels.
+const ROTATE_SNAP_ANGLE = 15; // Angle in degrees to which rotation snaps, while shift is pressed.
+const MIN_SIZE = 1; // Minimum width and height of the resized shape.
+
+/**
+ * Interaction which is currently performed with one of the handles.
+ */
+interface SvgTransformerAction {
+  type: 'resize' | 'rotate';
+  handle: [number, number]; // Position of the dragged handle relative to the box.
+  box: Box; // Bounding box of the shape at the start of the interaction.
+  toLocal: Matrix; // Matrix converting overlay coordinates to coordinates of the shape.
+  transform: Matrix; // Own transformation of the shape at the start of the interaction.
+  center: Point; // Center of the shape in overlay coordinates.
+  angle: number; // Angle of the pointer around the center at the start of the interaction.
+  rotate: number; // Rotation of the shape at the start of the interaction.
+  result: SvgBox | null; // Last box the shape has been resized to.
+  rotation: number | null; // Last rotation the shape has been rotated to.
+}
+
+@Directive({
+  selector: 'svg-transformer'
+})
+export class SvgTransformerDirective implements AfterViewChecked, OnDestroy {
+  /**
+   * Input variables for the transformer directive.
+   */
+  @Input() target: SvgEditableShape | null = null; // Directive instance of the shape, which should be transformed.
+  @Input() keepAspectRatio = false; // Indicator if aspect ratio should be kept while resizing. Holding shift toggles it.
+  @Input() rotatable = true; // Indicator if rotate handle should be shown.
+  @Input() handleSize = 8; // Size of the handles in pixels.
+  @Input() color = '#1e90ff'; // Color of the outline and handle borders.
+
+  /**
+   * Output variables for the transformer directive.
+   */
+  @Output() transformStart: EventEmitter<SvgEditableShape> = new EventEmitter(); // Is fired when resizing or rotating starts.
+  @Output() transformEnd: EventEmitter<SvgEditableShape> = new EventEmitter(); // Is fired when resizing or rotating ends.
+
+  /**
+   * Globally used variables within the directive.
+   */
+  private _overlay: G | null = null;
+  private _outline: Polygon | null = null;
+  private _rotateLine: Line | null = null;
+  private _rotateHandle: Circle | null = null;
+  private _resizeHandles: Rect[] = [];
+  private _action: SvgTransformerAction | null = null;
+  private readonly _onPointerMove = (event: PointerEvent) => this.moveAction(event);
+  private readonly _onPointerUp = () => this.endAction();
+
+  /**
+   * Create SVG Transformer directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   */
+  constructor(
+    private _svgContainer: SvgContainerComponent
+  ) {}
+
+  /**
+   * Keeps the overlay in sync with the target shape, since it might change on every change detection.
+   */
+  ngAfterViewChecked(): void {
+    this.updateOverlay();
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the directive.
+   */
+  ngOnDestroy(): void {
+    this.stopListening();
+    this._overlay?.remove();
+  }
+
+  /**
+   * Creates outline and handles of the transformer on top of the container.
+   * @param root - Root container, to which overlay should be added.
+   */
+  private createOverlay(root: Container): G {
+    const overlay = root.group().addClass('svg-overlay');
+    this._outline = overlay.polygon().fill('none').attr('pointer-events', 'none');
+    this._rotateLine = overlay.line().attr('pointer-events', 'none');
+    this._resizeHandles = RESIZE_HANDLES.map((handle, index) => overlay
+      .rect()
+      .fill('#fff')
+      .css('cursor', RESIZE_CURSORS[index])
+      .on('pointerdown', (evt: Event) => this.startAction(evt as PointerEvent, 'resize', handle)) // Assign resize start
+    );
+    this._rotateHandle = overlay
+      .circle()
+      .fill('#fff')
+      .css('cursor', 'grab')
+      .on('pointerdown', (evt: Event) => this.startAction(evt as PointerEvent, 'rotate', [0.5, 0])); // Assign rotate start
+
+    return overlay;
+  }
+
+  /**
+   * Draws outline and handles around the box of the target shape, or hides them if there is no target.
+   */
+  private updateOverlay(): void {
+    const root = this._svgContainer.getContainer();
+    if (!root) {
+      return;
+    }
+    const overlay = this._overlay || (this._overlay = this.createOverlay(root));
+    const element = this.target && this.target.resizable ? this.target.getElement() : null;
+    const box = this.target?.getBox();
+    if (!element || !box) {
+      overlay.hide();
+      return;
+    }
+    overlay.show();
+
+    // Let's keep the overlay above all the elements
+    if (overlay.next()) {
+      overlay.front();
+    }
+
+    const matrix = this.getMatrix(element);
+    const getPoint = (px: number, py: number) => new Point(box.x + px * box.width, box.y + py * box.height).transform(matrix);
+
+    // Handles and strokes keep the same size on the screen regardless of the zoom
+    const zoom = this._svgContainer.getZoom();
+    const size = this.handleSize / zoom;
+    const stroke = { color: this.color, width: 1 / zoom };
+
+    const corners = [getPoint(0, 0), getPoint(1, 0), getPoint(1, 1), getPoint(0, 1)];
+    this._outline?.plot(corners.map(({ x, y }): ArrayXY => [x, y])).stroke(stroke);
+
+    this._resizeHandles.forEach((handle, index) => {
+      const [px, py] = RESIZE_HANDLES[index];
+      const { x, y } = getPoint(px, py);
+      handle.size(size, size).center(x, y).stroke(stroke);
+
+      // Shapes with fixed aspect ratio can only be resized by the corners
+      handle.attr('display', this.target?.fixedAspectRatio && (px === 0.5 || py === 0.5) ? 'none' : null);
+    });
+
+    // Rotate handle is placed above the top edge, in the direction of the shape rotation
+    const top = getPoint(0.5, 0);
+    const center = getPoint(0.5, 0.5);
+    const length = Math.hypot(top.x - center.x, top.y - center.y) || 1;
+    const distance = ROTATE_HANDLE_DISTANCE / zoom;
+    const handleX = top.x + (top.x - center.x) / length * distance;
+    const handleY = top.y + (top.y - center.y) / length * distance;
+    this._rotateLine?.plot(top.x, top.y, handleX, handleY).stroke(stroke).attr('display', this.rotatable ? null : 'none');
+    this._rotateHandle?.size(size).center(handleX, handleY).stroke(stroke).attr('display', this.rotatable ? null : 'none');
+  }
+
+  /**
+   * Starts resizing or rotating the target shape, when one of the handles is pressed.
+   * @param event - Pointer event handler from the DOM.
+   * @param type - Type of the interaction.
+   * @param handle - Position of the pressed handle relative to the box.
+   */
+  private startAction(event: PointerEvent, type: 'resize' | 'rotate', handle: [number, number]): void {
+    const target = this.target;
+    const element = target?.getElement();
+    const targetBox = target?.getBox();
+    if (!target || !element || !targetBox || !this._overlay || event.button !== 0) {
+      return;
+    }
+
+    // Make sure container does not start panning
+    event.stopPropagation();
+    event.preventDefault();
+
+    const box = new Box(targetBox.x, targetBox.y, targetBox.width, targetBox.height);
+    const matrix = this.getMatrix(element);
+    const center = new Point(box.cx, box.cy).transform(matrix);
+    const point = this._overlay.point(event.clientX, event.clientY);
+    this._action = {
+      type,
+      handle,
+      box,
+      toLocal: matrix.inverse(),
+      transform: new Matrix(element),
+      center,
+      angle: Math.atan2(point.y - center.y, point.x - center.x),
+      rotate: target.rotate,
+      result: null,
+      rotation: null
+    };
+
+    document.addEventListener('pointermove', this._onPointerMove);
+    document.addEventListener('pointerup', this._onPointerUp);
+    document.addEventListener('pointercancel', this._onPointerUp);
+
+    this.transformStart.emit(target);
+  }
+
+  /**
+   * Resizes or rotates the target shape according to the pointer position.
+   * @param event - Pointer event handler from the DOM.
+   */
+  private moveAction(event: PointerEvent): void {
+    const action = this._action;
+    const target = this.target;
+    if (!action || !target || !this._overlay) {
+      return;
+    }
+    const point = this._overlay.point(event.clientX, event.clientY);
+
+    if (action.type === 'rotate') {
+      const angle = Math.atan2(point.y - action.center.y, point.x - action.center.x);
+      let rotate = action.rotate + (angle - action.angle) * 180 / Math.PI;
+      if (event.shiftKey) {
+        rotate = Math.round(rotate / ROTATE_SNAP_ANGLE) * ROTATE_SNAP_ANGLE;
+      }
+      action.rotation = (rotate % 360 + 360) % 360;
+      target.applyTransform({ rotate: action.rotation }, false);
+    } else {
+      const keepAspectRatio = target.fixedAspectRatio || this.keepAspectRatio !== event.shiftKey;
+      action.result = this.getResizedBox(action, point.transform(action.toLocal), keepAspectRatio);
+      target.resizeTo(action.result, false);
+    }
+
+    this.updateOverlay();
+  }
+
+  /**
+   * Finishes resizing or rotating and emits the new geometry of the target shape.
+   */
+  private endAction(): void {
+    const action = this._action;
+    this.stopListening();
+    this._action = null;
+    if (!action || !this.target) {
+      return;
+    }
+    if (action.result) {
+      this.target.resizeTo(action.result);
+    }
+    if (action.rotation !== null) {
+      this.target.applyTransform({ rotate: action.rotation });
+    }
+    this.transformEnd.emit(this.target);
+  }
+
+  /**
+   * Calculates new box of the shape, after one of the resize handles was moved.
+   * @param action - Current resize interaction.
+   * @param point - Pointer position in coordinates of the shape.
+   * @param keepAspectRatio - Indicator if aspect ratio of the box should be kept.
+   * @returns New box of the shape.
+   */
+  private getResizedBox(action: SvgTransformerAction, point: Point, keepAspectRatio: boolean): SvgBox {
+    const { box, handle: [px, py] } = action;
+    let left = box.x;
+    let top = box.y;
+    let right = box.x2;
+    let bottom = box.y2;
+
+    // Let's move only the edges of the pressed handle
+    if (px === 0) {
+      left = Math.min(point.x, right - MIN_SIZE);
+    } else if (px === 1) {
+      right = Math.max(point.x, left + MIN_SIZE);
+    }
+    if (py === 0) {
+      top = Math.min(point.y, bottom - MIN_SIZE);
+    } else if (py === 1) {
+      bottom = Math.max(point.y, top + MIN_SIZE);
+    }
+    let width = right - left;
+    let height = bottom - top;
+
+    // Corner handles scale by the larger change, edge handles scale the other side along
+    if (keepAspectRatio && box.width && box.height) {
+      const scale = px === 0.5 ? height / box.height : py === 0.5 ? width / box.width : Math.max(width / box.width, height / box.height);
+      width = box.width * scale;
+      height = box.height * scale;
+      left = px === 0 ? right - width : px === 1 ? left : box.cx - width / 2;
+      top = py === 0 ? bottom - height : py === 1 ? top : box.cy - height / 2;
+    }
+
+    // Transformation of the shape is applied around its center, which moves together with the resized edges.
+    // Let's shift the box, so that the opposite edges stay in place on the screen.
+    if (this.target?.origin === null) {
+      const { a, b, c, d } = action.transform;
+      const dx = left + width / 2 - box.cx;
+      const dy = top + height / 2 - box.cy;
+      left += (a - 1) * dx + c * dy;
+      top += b * dx + (d - 1) * dy;
+    }
+
+    return { x: left, y: top, width, height };
+  }
+
+  /**
+   * Retrieves matrix, which converts coordinates of the element to coordinates of the overlay.
+   * @param element - Element of the target shape.
+   * @returns Transformation matrix.
+   */
+  private getMatrix(element: Element): Matrix {
+    const overlay = this._overlay;
+
+    return overlay ? overlay.screenCTM().inverse().multiply(element.screenCTM()) : new Matrix();
+  }
+
+  /**
+   * Removes pointer listeners used while resizing or rotating.
+   */
+  private stopListening(): void {
+    document.removeEventListener('pointermove', this._onPointerMove);
+    document.removeEventListener('pointerup', this._onPointerUp);
+    document.removeEventListener('pointercancel', this._onPointerUp);
+  }
+}
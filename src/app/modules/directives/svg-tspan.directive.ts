@@ -0,0 +1,84 @@
+/**
+ * Import Angular libraries.
+ */
+import { Directive, Input, ElementRef, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+
+/**
+ * Import custom directives.
+ */
+import { SvgTextDirective } from './svg-text.directive';
+
+@Directive({
+  selector: 'svg-tspan'
+})
+export class SvgTspanDirective implements OnInit, OnChanges, OnDestroy {
+  /**
+   * Import variables for the tspan directive.
+   */
+  @Input() text = ''; // Text of the run.
+  @Input() color: string | null = null; // Color of the run, inherited from the text if not set.
+  @Input() size: number | null = null; // Font size of the run, inherited from the text if not set.
+  @Input() fontWeight: string | number | null = null; // Font weight of the run, e.g. 'bold' or 600.
+  @Input() fontStyle: 'normal' | 'italic' | 'oblique' | null = null; // Font style of the run.
+  @Input() dx: number | null = null; // Shift of the run on x-axis.
+  @Input() dy: number | null = null; // Shift of the run on y-axis, ignored if the run starts a new line.
+  @Input() newLine = false; // Indicator if the run should start on a new line.
+
+  /**
+   * Create SVG Tspan directive.
+   * @param _text - Parent text directive object instance.
+   * @param _elRef - Angular element reference object instance.
+   */
+  constructor(
+    private _text: SvgTextDirective,
+    private _elRef: ElementRef
+  ) {}
+
+  /**
+   * Retrieves attributes of the tspan element.
+   * @returns Object with attribute values, where null values are not set.
+   */
+  getAttributes(): { [attribute: string]: number | string | null } {
+    return {
+      fill: this.color,
+      'font-size': this.size,
+      'font-weight': this.fontWeight,
+      'font-style': this.fontStyle,
+      dx: this.dx,
+      dy: this.dy
+    };
+  }
+
+  /**
+   * Retrieves host element of the directive, used to keep the runs in the template order.
+   * @returns Host DOM element.
+   */
+  getHostElement(): HTMLElement {
+    return this._elRef.nativeElement;
+  }
+
+  /**
+   * Adds the run to the parent text.
+   */
+  ngOnInit(): void {
+    this._text.addTspan(this);
+  }
+
+  /**
+   * Updates the parent text, when run changes.
+   * @param changes - Angular Simple Changes object containing all the changes.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    const firstChange = Object.values(changes).every((change) => change.firstChange);
+    if (!firstChange) {
+      this._text.updateTspans();
+    }
+  }
+
+  /**
+   * Removes the run from the parent text.
+   */
+  ngOnDestroy(): void {
+    this._text.removeTspan(this);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgUseDirective } from './svg-use.directive';
+import { SvgSymbolDirective } from './svg-symbol.directive';
+import { SvgRectDirective } from './svg-rect.directive';
+
+// Let's mock component that uses the directive
+@Component({
+  template: `
+    <svg-container containerId="test-id">
+      <svg-symbol symbolId="test-square" [viewBox]="[0, 0, 10, 10]">
+        <svg-rect [width]="10" [height]="10" color="currentColor"></svg-rect>
+      </svg-symbol>
+      <svg-symbol symbolId="test-other" [viewBox]="[0, 0, 10, 10]"></svg-symbol>
+      <svg-use [symbolId]="symbolId" [x]="x" [y]="y" [width]="width" [height]="height" [color]="color" [classes]="classes"
+        (clickEvent)="eventCalled()"
+        (doubleClickEvent)="eventCalled()"
+        (mouseOverEvent)="eventCalled()"
+        (mouseOutEvent)="eventCalled()"
+        (onInitialize)="eventCalled()"
+        *ngIf="createUse"></svg-use>
+      <svg-use symbolId="test-square" [x]="20" [width]="10" [height]="10" color="#00f"></svg-use>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createUse = true;
+  public symbolId = 'test-square';
+  public x = 0;
+  public y = 0;
+  public width: number | null = 10;
+  public height: number | null = 10;
+  public color = '#f00';
+  public classes = ['black-border'];
+  @ViewChild(SvgUseDirective) public useDirective: SvgUseDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+
+  /**
+   * Mock function for testing that event has been called.
+   */
+  eventCalled() {}
+}
+
+describe('SVG Use Directive', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        SvgUseDirective,
+        SvgSymbolDirective,
+        SvgRectDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should create component', () => {
+    expect(app).toBeTruthy();
+  });
+
+  it('Should test that on destroying use, the use element is removed', () => {
+    expect(html.querySelectorAll('use').length).toEqual(2);
+
+    app.createUse = false;
+
+    fixture.detectChanges();
+
+    expect(html.querySelectorAll('use').length).toEqual(1);
+  });
+
+  describe('createShape fn tests', () => {
+    it('Should set custom attributes on the use element', () => {
+      const use = html.querySelector('use');
+
+      expect(use.getAttribute('href')).toEqual('#test-square');
+      expect(use.getAttribute('x')).toEqual('0');
+      expect(use.getAttribute('width')).toEqual('10');
+      expect(use.getAttribute('height')).toEqual('10');
+      expect(use.getAttribute('class')).toEqual('black-border');
+    });
+
+    it('Should color each use element separately through currentColor', () => {
+      const uses = html.querySelectorAll('use');
+
+      expect(uses[0].getAttribute('color')).toEqual('#ff0000');
+      expect(uses[1].getAttribute('color')).toEqual('#0000ff');
+      expect(html.querySelector('symbol rect').getAttribute('fill')).toEqual('currentColor');
+    });
+
+    it('Should emit onInitialize on use creation', () => {
+      spyOn(app, 'eventCalled');
+      app.createUse = false;
+
+      fixture.detectChanges();
+
+      app.createUse = true;
+
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create click event handler', () => {
+      spyOn(app, 'eventCalled');
+
+      html.querySelector('use').dispatchEvent(new MouseEvent('click'));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should create mouseover event handler', () => {
+      spyOn(app, 'eventCalled');
+
+      html.querySelector('use').dispatchEvent(new MouseEvent('mouseover'));
+      fixture.detectChanges();
+
+      expect(app.eventCalled).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ngOnChanges fn tests', () => {
+    it('Should update referenced symbol, position, size and color', () => {
+      app.symbolId = 'test-other';
+      app.x = 5;
+      app.y = 6;
+      app.width = 20;
+      app.height = 30;
+      app.color = '#0f0';
+
+      fixture.detectChanges();
+
+      const use = html.querySelector('use');
+      expect(use.getAttribute('href')).toEqual('#test-other');
+      expect(use.getAttribute('x')).toEqual('5');
+      expect(use.getAttribute('y')).toEqual('6');
+      expect(use.getAttribute('width')).toEqual('20');
+      expect(use.getAttribute('height')).toEqual('30');
+      expect(use.getAttribute('color')).toEqual('#00ff00');
+    });
+
+    it('Should remove size, when it is reset to null', () => {
+      app.width = null;
+      app.height = null;
+
+      fixture.detectChanges();
+
+      const use = html.querySelector('use');
+      expect(use.getAttribute('width')).toBeNull();
+      expect(use.getAttribute('height')).toBeNull();
+    });
+  });
+
+  describe('getBox fn tests', () => {
+    it('Should retrieve the viewport from the inputs, instead of the box of the referenced content', () => {
+      app.width = 40;
+      app.height = 20;
+
+      fixture.detectChanges();
+
+      // Square symbol is scaled to the height of the viewport and centered horizontally
+      expect(app.useDirective.getElement().bbox().width).toBeCloseTo(20);
+      expect(app.useDirective.getBox()).toEqual({ x: 0, y: 0, width: 40, height: 20 });
+    });
+
+    it('Should retrieve the box of the referenced content, when size is not set', () => {
+      app.width = null;
+      app.height = null;
+
+      fixture.detectChanges();
+
+      const { x, y, width, height } = app.useDirective.getElement().bbox();
+      expect(app.useDirective.getBox()).toEqual(jasmine.objectContaining({ x, y, width, height }));
+    });
+  });
+});
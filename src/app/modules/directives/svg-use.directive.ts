@@ -0,0 +1,171 @@
+/**
+ * Import Angular libraries.
+ */
+import {
+  Directive,
+  Input,
+  ElementRef,
+  Optional,
+  EventEmitter,
+  Output
+} from '@angular/core';
+
+/**
+ * Import third-party libraries.
+ */
+import { Use } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from '../components';
+import { SvgBaseDirective } from './svg-base.directive';
+import { SvgParent } from './svg-parent';
+import { SvgBox } from '../models';
+
+@Directive({
+  selector: 'svg-use'
+})
+export class SvgUseDirective extends SvgBaseDirective {
+  /**
+   * Globally used variables within the directive.
+   */
+  override _shape: Use | null = null;
+  override readonly resizable = true;
+
+  /**
+   * Import variables for the use directive.
+   */
+  @Input() symbolId = ''; // Id of the symbol or any other element, which should be displayed.
+  @Input() x = 0; // Starting point on x-axis.
+  @Input() y = 0; // Starting point on y-axis.
+  @Input() width: number | null = null; // Width of the symbol, defaults to the width of the container.
+  @Input() height: number | null = null; // Height of the symbol, defaults to the height of the container.
+  @Output() xChange: EventEmitter<number> = new EventEmitter(); // Emits new x, after the element has been dragged.
+  @Output() yChange: EventEmitter<number> = new EventEmitter(); // Emits new y, after the element has been dragged.
+  @Output() widthChange: EventEmitter<number> = new EventEmitter(); // Emits new width, after the element has been resized.
+  @Output() heightChange: EventEmitter<number> = new EventEmitter(); // Emits new height, after the element has been resized.
+
+  /**
+   * Create SVG Use directive.
+   * @param _svgContainer - Host SVG Container Component object instance.
+   * @param _elRef - Angular element reference object instance.
+   * @param _svgParent - Parent element object instance, in case directive is nested, e.g. within a group.
+   */
+  constructor(
+    _svgContainer: SvgContainerComponent,
+    _elRef: ElementRef,
+    @Optional() _svgParent: SvgParent | null
+  ) {
+    super(_svgContainer, _elRef, _svgParent);
+  }
+
+  /**
+   * Update use object within the SVG container.
+   */
+  override updateShape(): void {
+    this.setAttributes();
+    this.addRemoveClasses(this.classes);
+    this.setCorrectPosition();
+  }
+
+  /**
+   * Create use object within the SVG container.
+   */
+  override createShape(): void {
+    const container = this.getParentContainer();
+    if (!container) {
+      return;
+    }
+    this._shape = container.use(this.symbolId); // Reference the symbol by its id
+    this.setAttributes();
+    this._shape
+      .on('click', (evt: Event) => this.clickEvent.emit(evt)) // Assign click event
+      .on('dblclick', (evt: Event) => this.doubleClickEvent.emit(evt)) // Assign double click event
+      .on('mouseover', (evt: Event) => this.mouseOverEvent.emit(evt)) // Assign mouse over event
+      .on('mouseout', (evt: Event) => this.mouseOutEvent.emit(evt)); // Assign mouse out event
+
+    // Let's set element in a correct position
+    this.setCorrectPosition();
+
+    // Add classes to the use element
+    this.addRemoveClasses(this.classes);
+
+    // Let's output the use element
+    this.onInitialize.emit(this._shape);
+  }
+
+  /**
+   * Retrieves viewport of the use element, which is resized instead of the box of the referenced content.
+   * @returns Box from position and size inputs, or bounding box of the content if size is not set.
+   */
+  override getBox(): SvgBox | null {
+    if (this.width === null || this.height === null) {
+      return super.getBox();
+    }
+    return { x: Number(this.x), y: Number(this.y), width: Number(this.width), height: Number(this.height) };
+  }
+
+  /**
+   * Sets referenced symbol, position, size and color of the use element.
+   */
+  private setAttributes(): void {
+    const use = this._shape;
+    if (!use) {
+      return;
+    }
+    use
+      .use(this.symbolId) // Update the referenced symbol
+      .attr({
+        x: this.x,
+        y: this.y,
+        width: this.width,
+        height: this.height,
+        color: this.color // Shapes of the symbol, which are colored with currentColor, take the color of each use element
+      });
+
+    // Update the fill, border and opacity
+    this.setPaint();
+  }
+
+  /**
+   * Moves the element while it is being dragged.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  protected override shiftPosition(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /**
+   * Emits new position of the element after it has been dragged.
+   */
+  protected override emitPositionChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+  }
+
+  /**
+   * Changes position and size of the element while it is being resized.
+   * @param box - New bounding box of the element.
+   */
+  protected override setBox(box: SvgBox): void {
+    this.x = box.x;
+    this.y = box.y;
+    this.width = box.width;
+    this.height = box.height;
+  }
+
+  /**
+   * Emits new position and size of the element after it has been resized.
+   */
+  protected override emitBoxChange(): void {
+    this.xChange.emit(this.x);
+    this.yChange.emit(this.y);
+    if (this.width !== null && this.height !== null) {
+      this.widthChange.emit(this.width);
+      this.heightChange.emit(this.height);
+    }
+  }
+}
@@ -1,2 +1,8 @@
 export * from './components';
 export * from './directives';
+export * from './models';
+export * from './services';
+export { SvgCurveInterpolation } from './util/curve.util';
+export { parseSvg } from './util/import-svg.util';
+export { SvgMarkerPreset } from './util/marker-preset.util';
+export { SvgPatternPreset } from './util/pattern-preset.util';
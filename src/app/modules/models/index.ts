@@ -0,0 +1,10 @@
+export * from './svg-animation.model';
+export * from './svg-box.model';
+export * from './svg-drag-event.model';
+export * from './svg-editable-shape.model';
+export * from './svg-glow.model';
+export * from './svg-image-load-event.model';
+export * from './svg-keyframe.model';
+export * from './svg-shadow.model';
+export * from './svg-shape.model';
+export * from './svg-transform.model';
@@ -0,0 +1,13 @@
+/**
+ * Import third-party libraries.
+ */
+import { EasingLiteral } from '@svgdotjs/svg.js';
+
+/**
+ * Timing of the animation.
+ */
+export interface SvgAnimation {
+  duration?: number; // Duration of the animation in milliseconds. Defaults to 300.
+  easing?: EasingLiteral | ((position: number) => number); // Easing of the animation. Defaults to '<>'.
+  delay?: number; // Delay before the animation starts in milliseconds. Defaults to 0.
+}
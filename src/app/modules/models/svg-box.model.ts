@@ -0,0 +1,9 @@
+/**
+ * Rectangular area in the user space of the svg container.
+ */
+export interface SvgBox {
+  x: number; // Starting point on x-axis.
+  y: number; // Starting point on y-axis.
+  width: number; // Width of the area.
+  height: number; // Height of the area.
+}
@@ -0,0 +1,10 @@
+/**
+ * Event emitted while a shape is being dragged.
+ */
+export interface SvgDragEvent {
+  x: number; // Pointer position on x-axis in the user space of the parent container.
+  y: number; // Pointer position on y-axis in the user space of the parent container.
+  dx: number; // Distance the shape has moved on x-axis since the drag has started.
+  dy: number; // Distance the shape has moved on y-axis since the drag has started.
+  event: PointerEvent; // Pointer event, which caused the change.
+}
@@ -0,0 +1,25 @@
+/**
+ * Import third-party libraries.
+ */
+import { CoordinateXY, Element } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom models.
+ */
+import { SvgBox } from './svg-box.model';
+import { SvgTransform } from './svg-transform.model';
+
+/**
+ * Shape directive, as seen by interactive tools like the selection and the transformer.
+ */
+export interface SvgEditableShape {
+  readonly resizable: boolean; // Indicator if shape can be resized.
+  readonly fixedAspectRatio: boolean; // Indicator if shape always keeps its aspect ratio while resizing.
+  rotate: number; // Rotation of the shape in degrees.
+  origin: CoordinateXY | string | null; // Origin of the transformation, or null for the center of the shape.
+  getElement(): Element | null;
+  getBox(): SvgBox | null;
+  moveBy(dx: number, dy: number, emitChange?: boolean): void;
+  resizeTo(box: SvgBox, emitChange?: boolean): void;
+  applyTransform(transform: Partial<SvgTransform>, emitChange?: boolean): void;
+}
@@ -0,0 +1,8 @@
+/**
+ * Glow drawn around the shape.
+ */
+export interface SvgGlow {
+  blur?: number; // Standard deviation of the glow blur, which defines how far the glow spreads. Defaults to 3.
+  color?: string; // Color of the glow. Defaults to '#1e90ff'.
+  opacity?: number; // Opacity of the glow, between 0 and 1. Defaults to 0.8.
+}
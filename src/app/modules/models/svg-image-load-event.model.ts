@@ -0,0 +1,7 @@
+/**
+ * Event emitted after an image has been loaded.
+ */
+export interface SvgImageLoadEvent {
+  naturalWidth: number; // Intrinsic width of the image.
+  naturalHeight: number; // Intrinsic height of the image.
+}
@@ -0,0 +1,13 @@
+/**
+ * Import custom models.
+ */
+import { SvgAnimation } from './svg-animation.model';
+import { SvgTransform } from './svg-transform.model';
+
+/**
+ * Single step of the animation sequence.
+ */
+export interface SvgKeyframe extends SvgAnimation {
+  attributes?: { [attribute: string]: number | string }; // Attributes animated to the given values, e.g. { r: 10 }.
+  transform?: Partial<SvgTransform>; // Transformation, which is animated to. Missing values are taken from the transform inputs.
+}
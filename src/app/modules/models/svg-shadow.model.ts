@@ -0,0 +1,10 @@
+/**
+ * Drop shadow drawn behind the shape.
+ */
+export interface SvgShadow {
+  dx?: number; // Offset of the shadow on x-axis. Defaults to 2.
+  dy?: number; // Offset of the shadow on y-axis. Defaults to 2.
+  blur?: number; // Standard deviation of the shadow blur. Defaults to 2.
+  color?: string; // Color of the shadow. Defaults to '#000'.
+  opacity?: number; // Opacity of the shadow, between 0 and 1. Defaults to 0.5.
+}
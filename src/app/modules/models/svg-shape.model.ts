@@ -0,0 +1,149 @@
+/**
+ * Import third-party libraries.
+ */
+import { CoordinateXY, PointArrayAlias, Shape } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom models.
+ */
+import { SvgTransform } from './svg-transform.model';
+
+/**
+ * Properties shared by all shape models. Transform inputs are set only for transformed elements.
+ */
+interface SvgShapeModelBase extends Partial<SvgTransform> {
+  id: string; // Unique id of the element.
+  classes: string[]; // List of CSS classes of the element.
+  origin?: CoordinateXY; // Origin of the transformation, which is [0, 0] for the transform inputs of imported elements.
+}
+
+/**
+ * Model describing svg-rect directive inputs.
+ */
+export interface SvgRectModel extends SvgShapeModelBase {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rx: number;
+  ry: number;
+  color: string;
+}
+
+/**
+ * Model describing svg-circle directive inputs.
+ */
+export interface SvgCircleModel extends SvgShapeModelBase {
+  type: 'circle';
+  x: number;
+  y: number;
+  diameter: number;
+  color: string;
+}
+
+/**
+ * Model describing svg-ellipse directive inputs.
+ */
+export interface SvgEllipseModel extends SvgShapeModelBase {
+  type: 'ellipse';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+/**
+ * Model describing svg-line directive inputs.
+ */
+export interface SvgLineModel extends SvgShapeModelBase {
+  type: 'line';
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  borderColor: string;
+  borderSize: number;
+}
+
+/**
+ * Model describing svg-polyline directive inputs.
+ */
+export interface SvgPolylineModel extends SvgShapeModelBase {
+  type: 'polyline';
+  points: PointArrayAlias;
+  fill: string;
+  borderColor: string;
+  borderSize: number;
+}
+
+/**
+ * Model describing svg-polygon directive inputs.
+ */
+export interface SvgPolygonModel extends SvgShapeModelBase {
+  type: 'polygon';
+  points: PointArrayAlias;
+  fill: string;
+  borderColor: string;
+  borderSize: number;
+}
+
+/**
+ * Model describing svg-path directive inputs.
+ */
+export interface SvgPathModel extends SvgShapeModelBase {
+  type: 'path';
+  path: string;
+  x: number;
+  y: number;
+  fill: string;
+  borderColor: string;
+  borderSize: number;
+}
+
+/**
+ * Model describing svg-text directive inputs.
+ */
+export interface SvgTextModel extends SvgShapeModelBase {
+  type: 'text';
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  color: string;
+}
+
+/**
+ * Model describing svg-image directive inputs.
+ */
+export interface SvgImageModel extends SvgShapeModelBase {
+  type: 'image';
+  imageUrl: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Declarative description of a shape, which can be rendered with the matching directive.
+ */
+export type SvgShapeModel =
+  SvgRectModel |
+  SvgCircleModel |
+  SvgEllipseModel |
+  SvgLineModel |
+  SvgPolylineModel |
+  SvgPolygonModel |
+  SvgPathModel |
+  SvgTextModel |
+  SvgImageModel;
+
+/**
+ * Shape imported into the container together with its model.
+ */
+export interface SvgImportedShape {
+  model: SvgShapeModel;
+  element: Shape;
+}
@@ -0,0 +1,12 @@
+/**
+ * Transformation applied to a shape on top of its position and size.
+ */
+export interface SvgTransform {
+  rotate: number; // Rotation in degrees.
+  scaleX: number; // Scale on x-axis.
+  scaleY: number; // Scale on y-axis.
+  skewX: number; // Skew on x-axis in degrees.
+  skewY: number; // Skew on y-axis in degrees.
+  translateX: number; // Translation on x-axis.
+  translateY: number; // Translation on y-axis.
+}
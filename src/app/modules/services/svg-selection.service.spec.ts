@@ -0,0 +1,268 @@
+/**
+ * Import Angular libraries.
+ */
+import { Component, OnInit, ChangeDetectorRef, ViewChild } from '@angular/core';
+import { TestBed, ComponentFixture, ComponentFixtureAutoDetect, waitForAsync } from '@angular/core/testing';
+
+/**
+ * Import custom components.
+ */
+import { SvgContainerComponent } from 'app/modules/components';
+
+/**
+ * Import custom directives.
+ */
+import { SvgRectDirective } from '../directives/svg-rect.directive';
+import { SvgGroupDirective } from '../directives/svg-group.directive';
+import { SvgCircleDirective } from '../directives/svg-circle.directive';
+
+/**
+ * Import custom models.
+ */
+import { SvgEditableShape } from '../models';
+
+// Let's mock component that uses the selection
+@Component({
+  template: `
+    <svg-container containerId="test-id" [selectable]="selectable"
+      (selectionChange)="selected = $event"
+      (selectionDelete)="deleted = $event">
+      <svg-rect id="first" [(x)]="x" [y]="10" [width]="10" [height]="10"></svg-rect>
+      <svg-rect id="second" [x]="40" [y]="10" [width]="10" [height]="10" *ngIf="createSecond"></svg-rect>
+      <svg-group id="group">
+        <svg-circle [x]="70" [y]="10" [diameter]="10"></svg-circle>
+      </svg-group>
+    </svg-container>
+  `
+})
+class TestComponent implements OnInit {
+  /**
+   * Globally used parameters within the component.
+   */
+  public selectable = true;
+  public createSecond = true;
+  public x = 10;
+  public selected: SvgEditableShape[] = [];
+  public deleted: SvgEditableShape[] = [];
+  @ViewChild(SvgContainerComponent) public container: SvgContainerComponent;
+  @ViewChild(SvgGroupDirective) public group: SvgGroupDirective;
+
+  /**
+   * Creates test component object instance.
+   * @param cdRef - Change detector ref object instance.
+   */
+  constructor(
+    private cdRef: ChangeDetectorRef
+  ) {}
+
+  /**
+   * Does all required pre-requisites before initializing the test component.
+   */
+  ngOnInit(): void {
+    this.cdRef.detectChanges();
+  }
+}
+
+// Let's mock component that shows the number of selected shapes, before the shape which can be removed
+@Component({
+  template: `
+    <span class="selected-count">{{ selected.length }}</span>
+    <svg-container containerId="remove-id" (selectionChange)="selected = $event">
+      <svg-rect [x]="10" [y]="10" [width]="10" [height]="10" *ngIf="createRect"></svg-rect>
+    </svg-container>
+  `
+})
+class RemoveSelectedTestComponent {
+  /**
+   * Globally used parameters within the component.
+   */
+  public createRect = true;
+  public selected: SvgEditableShape[] = [];
+  @ViewChild(SvgContainerComponent) public container: SvgContainerComponent;
+}
+
+describe('SVG Selection Service', () => {
+  let app: TestComponent;
+  let fixture: ComponentFixture<TestComponent>;
+  let html: HTMLElement;
+
+  /**
+   * Presses the element with a pointer.
+   * @param element - Element which should be pressed.
+   * @param shiftKey - Indicator if shift key is held.
+   */
+  function press(element: Element, shiftKey = false): void {
+    element.dispatchEvent(new PointerEvent('pointerdown', { button: 0, bubbles: true, shiftKey }));
+    element.dispatchEvent(new PointerEvent('pointerup', { button: 0, bubbles: true, shiftKey }));
+    fixture.detectChanges();
+  }
+
+  /**
+   * Presses the key within the container.
+   * @param key - Key which should be pressed.
+   * @param shiftKey - Indicator if shift key is held.
+   */
+  function pressKey(key: string, shiftKey = false): void {
+    html.querySelector('.svg-container').dispatchEvent(new KeyboardEvent('keydown', { key, shiftKey, bubbles: true }));
+    fixture.detectChanges();
+  }
+
+  beforeEach(waitForAsync(() => {
+    TestBed.configureTestingModule({
+      imports: [],
+      declarations: [
+        SvgContainerComponent,
+        TestComponent,
+        RemoveSelectedTestComponent,
+        SvgRectDirective,
+        SvgGroupDirective,
+        SvgCircleDirective
+      ],
+      providers: [
+        { provide: ComponentFixtureAutoDetect, useValue: true }
+      ]
+    }).compileComponents();
+
+    // Let's assign variables
+    fixture = TestBed.createComponent(TestComponent);
+    app = fixture.componentInstance;
+    html = fixture.nativeElement;
+  }));
+
+  it('Should select the shape on click and mark it with a class', () => {
+    press(html.querySelector('rect'));
+
+    expect(app.selected.length).toEqual(1);
+    expect(app.selected[0].getElement().node).toBe(html.querySelector('rect'));
+    expect(html.querySelector('rect').classList).toContain('svg-selected');
+  });
+
+  it('Should not select shapes if container is not selectable', () => {
+    app.selectable = false;
+    fixture.detectChanges();
+
+    press(html.querySelector('rect'));
+
+    expect(app.selected.length).toEqual(0);
+  });
+
+  it('Should add and remove shapes from selection with shift-click', () => {
+    const [first, second] = Array.from(html.querySelectorAll('rect'));
+    press(first);
+    press(second, true);
+
+    expect(app.selected.length).toEqual(2);
+
+    press(first, true);
+
+    expect(app.selected.length).toEqual(1);
+    expect(app.selected[0].getElement().node).toBe(second);
+    expect(first.classList).not.toContain('svg-selected');
+  });
+
+  it('Should select the group, when its nested shape is clicked', () => {
+    press(html.querySelector('circle'));
+
+    expect(app.selected.length).toEqual(1);
+    expect(app.selected[0]).toBe(app.group);
+  });
+
+  it('Should clear selection when empty canvas is clicked', () => {
+    press(html.querySelector('rect'));
+    press(html.querySelector('svg'));
+
+    expect(app.selected.length).toEqual(0);
+  });
+
+  it('Should select shapes fully within the marquee', () => {
+    const svg = html.querySelector('svg');
+    const { left, top } = svg.getBoundingClientRect();
+    svg.dispatchEvent(new PointerEvent('pointerdown', { clientX: left + 5, clientY: top + 5, button: 0, bubbles: true }));
+    svg.dispatchEvent(new PointerEvent('pointermove', { clientX: left + 25, clientY: top + 25, bubbles: true }));
+
+    expect(html.querySelector('.svg-marquee')).not.toBeNull();
+
+    svg.dispatchEvent(new PointerEvent('pointerup', { clientX: left + 25, clientY: top + 25, bubbles: true }));
+    fixture.detectChanges();
+
+    expect(html.querySelector('.svg-marquee')).toBeNull();
+    expect(app.selected.length).toEqual(1);
+    expect(app.selected[0].getElement().node).toBe(html.querySelector('rect'));
+  });
+
+  it('Should nudge selected shapes with arrow keys', () => {
+    press(html.querySelector('rect'));
+
+    pressKey('ArrowRight');
+    expect(app.x).toEqual(11);
+
+    pressKey('ArrowLeft', true);
+    expect(app.x).toEqual(1);
+  });
+
+  it('Should emit selected shapes when delete is pressed', () => {
+    press(html.querySelector('rect'));
+
+    pressKey('Delete');
+
+    expect(app.deleted.length).toEqual(1);
+    expect(app.deleted[0]).toBe(app.selected[0]);
+  });
+
+  it('Should clear selection when escape is pressed', () => {
+    press(html.querySelector('rect'));
+
+    pressKey('Escape');
+
+    expect(app.selected.length).toEqual(0);
+  });
+
+  it('Should remove destroyed shapes from the selection', async () => {
+    app.container.selection.selectAll();
+    fixture.detectChanges();
+
+    expect(app.selected.length).toEqual(3);
+
+    app.createSecond = false;
+    fixture.detectChanges();
+
+    expect(app.container.selection.getSelected().length).toEqual(2);
+
+    await fixture.whenStable();
+
+    expect(app.selected.length).toEqual(2);
+  });
+
+  it('Should notify about removed selected shape after change detection has finished', async () => {
+    const removeFixture = TestBed.createComponent(RemoveSelectedTestComponent);
+    const removeApp = removeFixture.componentInstance;
+    const count = removeFixture.nativeElement.querySelector('.selected-count');
+    removeApp.container.selection.selectAll();
+    removeFixture.detectChanges();
+
+    expect(count.textContent).toEqual('1');
+
+    removeApp.createRect = false;
+    expect(() => removeFixture.detectChanges()).not.toThrow();
+
+    await removeFixture.whenStable();
+    removeFixture.detectChanges();
+
+    expect(removeApp.selected.length).toEqual(0);
+    expect(count.textContent).toEqual('0');
+  });
+
+  it('Should not notify about removed selected shapes, when the container is destroyed', async () => {
+    const removeFixture = TestBed.createComponent(RemoveSelectedTestComponent);
+    const removeApp = removeFixture.componentInstance;
+    removeApp.container.selection.selectAll();
+    removeFixture.detectChanges();
+    const changes = jasmine.createSpy('changes');
+    removeApp.container.selection.changes.subscribe(changes);
+
+    removeFixture.destroy();
+    await Promise.resolve();
+
+    expect(changes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Import Angular libraries.
+ */
+import { EventEmitter, Injectable, OnDestroy } from '@angular/core';
+
+/**
+ * Import custom models.
+ */
+import { SvgBox, SvgEditableShape } from '../models';
+
+const SELECTED_CLASS = 'svg-selected'; // Class added to elements of the selected shapes.
+
+/**
+ * Keeps track of the selected shapes within a single svg container.
+ */
+@Injectable()
+export class SvgSelectionService implements OnDestroy {
+  public readonly changes: EventEmitter<SvgEditableShape[]> = new EventEmitter(); // Is fired when selection changes.
+  private _shapes: SvgEditableShape[] = []; // Shapes which can be selected.
+  private _selected: SvgEditableShape[] = []; // Shapes which are currently selected.
+  private _changesPending = false; // Indicator if notification about the change is scheduled.
+  private _destroyed = false; // Indicator if the container has been destroyed.
+
+  /**
+   * Adds the shape to the list of shapes, which can be selected.
+   * @param shape - Directive instance of the shape.
+   */
+  register(shape: SvgEditableShape): void {
+    if (!this._shapes.includes(shape)) {
+      this._shapes.push(shape);
+    }
+  }
+
+  /**
+   * Removes the shape from the list of shapes, which can be selected, and from the selection.
+   * @param shape - Directive instance of the shape.
+   */
+  unregister(shape: SvgEditableShape): void {
+    this._shapes = this._shapes.filter((registered) => registered !== shape);
+    if (this.isSelected(shape)) {
+      // Shapes are destroyed during change detection, so let's notify about the change once it has finished
+      this.setSelection(this._selected.filter((selected) => selected !== shape), true);
+    }
+  }
+
+  /**
+   * Does all required pre-requisites before destroying the service together with the container.
+   */
+  ngOnDestroy(): void {
+    this._destroyed = true;
+  }
+
+  /**
+   * Retrieves currently selected shapes.
+   * @returns List of directive instances in order of selection.
+   */
+  getSelected(): SvgEditableShape[] {
+    return [...this._selected];
+  }
+
+  /**
+   * Checks if the shape is selected.
+   * @param shape - Directive instance of the shape.
+   * @returns Boolean indicator if shape is selected.
+   */
+  isSelected(shape: SvgEditableShape): boolean {
+    return this._selected.includes(shape);
+  }
+
+  /**
+   * Selects the shapes.
+   * @param shapes - Directive instances of the shapes.
+   * @param additive - Indicator if shapes should be added to the current selection, instead of replacing it.
+   */
+  select(shapes: SvgEditableShape[], additive = false): void {
+    const added = shapes.filter((shape) => this._shapes.includes(shape) && (!additive || !this.isSelected(shape)));
+
+    this.setSelection(additive ? [...this._selected, ...added] : added);
+  }
+
+  /**
+   * Selects the shape if it is not selected, or deselects it if it is.
+   * @param shape - Directive instance of the shape.
+   */
+  toggle(shape: SvgEditableShape): void {
+    if (this.isSelected(shape)) {
+      this.setSelection(this._selected.filter((selected) => selected !== shape));
+    } else {
+      this.select([shape], true);
+    }
+  }
+
+  /**
+   * Selects all the shapes, which are fully within the box.
+   * @param box - Box in the user space of the container.
+   * @param additive - Indicator if shapes should be added to the current selection, instead of replacing it.
+   */
+  selectInBox(box: SvgBox, additive = false): void {
+    const shapes = this._shapes.filter((shape) => {
+      const element = shape.getElement();
+      if (!element) {
+        return false;
+      }
+      const { x, y, x2, y2 } = element.rbox(element.root());
+
+      return x >= box.x && y >= box.y && x2 <= box.x + box.width && y2 <= box.y + box.height;
+    });
+
+    this.select(shapes, additive);
+  }
+
+  /**
+   * Selects all the shapes within the container.
+   */
+  selectAll(): void {
+    this.select(this._shapes);
+  }
+
+  /**
+   * Deselects all the shapes.
+   */
+  clear(): void {
+    this.setSelection([]);
+  }
+
+  /**
+   * Moves all the selected shapes by the specified distance.
+   * @param dx - Distance to move on x-axis.
+   * @param dy - Distance to move on y-axis.
+   */
+  nudge(dx: number, dy: number): void {
+    this._selected.forEach((shape) => shape.moveBy(dx, dy));
+  }
+
+  /**
+   * Updates the selection, marks selected elements with a class and notifies about the change.
+   * @param shapes - Directive instances of the newly selected shapes.
+   * @param deferChanges - Indicator if notification should be deferred until the current change detection is finished.
+   */
+  private setSelection(shapes: SvgEditableShape[], deferChanges = false): void {
+    if (shapes.length === this._selected.length && shapes.every((shape, index) => shape === this._selected[index])) {
+      return;
+    }
+    this._selected.forEach((shape) => shape.getElement()?.removeClass(SELECTED_CLASS));
+    this._selected = shapes;
+    this._selected.forEach((shape) => shape.getElement()?.addClass(SELECTED_CLASS));
+
+    if (deferChanges) {
+      this.emitChangesLater();
+    } else {
+      this.changes.emit(this.getSelected());
+    }
+  }
+
+  /**
+   * Notifies about the selection once, after all the shapes destroyed within the same change detection have been unregistered.
+   * Notification is skipped, if the container itself has been destroyed in the meantime.
+   */
+  private emitChangesLater(): void {
+    if (this._changesPending) {
+      return;
+    }
+    this._changesPending = true;
+    Promise.resolve().then(() => {
+      this._changesPending = false;
+      if (!this._destroyed) {
+        this.changes.emit(this.getSelected());
+      }
+    });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Import third-party libraries.
+ */
+import { EasingCallback, EasingLiteral, easing as easings } from '@svgdotjs/svg.js';
+
+/**
+ * svg.js exports functions of its named easings, but doesn't declare them in its typings.
+ */
+declare module '@svgdotjs/svg.js' {
+  const easing: Record<EasingLiteral, EasingCallback>;
+}
+
+/**
+ * Color format, which svg.js uses for the color attributes.
+ */
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Checks if the attribute can be tweened from one value to another.
+ * Values are compared in the format returned by svg.js, where numeric attributes are numbers and colors are hex strings.
+ * @param attribute - Name of the attribute.
+ * @param from - Current value of the attribute.
+ * @param to - New value of the attribute.
+ * @returns Indicator if attribute has changed and can be animated.
+ */
+export function isAnimatable(attribute: string, from: unknown, to: unknown): boolean {
+  if (from === to) {
+    return false;
+  }
+  if (typeof from === 'number' && typeof to === 'number') {
+    return true;
+  }
+  if (typeof from !== 'string' || typeof to !== 'string') {
+    return false;
+  }
+  if (HEX_COLOR.test(from) && HEX_COLOR.test(to)) {
+    return true;
+  }
+
+  // Paths and points are morphed point by point, so they must have the same structure
+  if (attribute === 'd') {
+    return from.replace(/[^a-z]/gi, '') === to.replace(/[^a-z]/gi, '');
+  }
+  if (attribute === 'points') {
+    return from.trim().split(/[\s,]+/).length === to.trim().split(/[\s,]+/).length;
+  }
+
+  return false;
+}
+
+/**
+ * Retrieves function of the easing, so that the same easing can be applied to the runner and to the custom animation steps.
+ * @param easing - Name of the svg.js easing or the easing function.
+ * @returns Function, which maps linear position of the animation to the eased one.
+ */
+export function getEasingFunction(easing: EasingLiteral | EasingCallback): EasingCallback {
+  return typeof easing === 'function' ? easing : easings[easing];
+}
@@ -0,0 +1,273 @@
+/**
+ * Geometry of the arc. Angles are in degrees, measured clockwise from 12 o'clock.
+ */
+export interface ArcGeometry {
+  cx: number; // Center of the arc on x-axis.
+  cy: number; // Center of the arc on y-axis.
+  innerRadius: number; // Inner radius, 0 for a pie slice.
+  outerRadius: number; // Outer radius.
+  startAngle: number; // Angle, where the arc starts.
+  endAngle: number; // Angle, where the arc ends.
+  cornerRadius: number; // Radius of the rounded corners.
+  padAngle: number; // Angle of the gap, which is left between the adjacent arcs.
+}
+
+/**
+ * Result of the corner calculation, relative to the center of the arc.
+ */
+interface CornerTangents {
+  cx: number; // Center of the corner circle on x-axis.
+  cy: number; // Center of the corner circle on y-axis.
+  x01: number; // Point, where corner touches the edge, relative to the corner center.
+  y01: number;
+  x11: number; // Point, where corner touches the circle of the arc, relative to the corner center.
+  y11: number;
+}
+
+/**
+ * Small value, below which lengths and angles are treated as zero.
+ */
+const EPSILON = 1e-9;
+
+/**
+ * Full circle in radians.
+ */
+const TAU = Math.PI * 2;
+
+/**
+ * Tweens the arc between two geometries.
+ * @param from - Geometry at the start of the animation.
+ * @param to - Geometry at the end of the animation.
+ * @param position - Position of the animation between 0 and 1.
+ * @returns Geometry at the position.
+ */
+export function interpolateArc(from: ArcGeometry, to: ArcGeometry, position: number): ArcGeometry {
+  const tween = (key: keyof ArcGeometry) => from[key] + (to[key] - from[key]) * position;
+  return {
+    cx: tween('cx'),
+    cy: tween('cy'),
+    innerRadius: tween('innerRadius'),
+    outerRadius: tween('outerRadius'),
+    startAngle: tween('startAngle'),
+    endAngle: tween('endAngle'),
+    cornerRadius: tween('cornerRadius'),
+    padAngle: tween('padAngle')
+  };
+}
+
+/**
+ * Checks if both geometries draw the same arc.
+ * @param first - First geometry.
+ * @param second - Second geometry.
+ * @returns Indicator if all the values are equal.
+ */
+export function isSameArc(first: ArcGeometry, second: ArcGeometry): boolean {
+  return (Object.keys(first) as (keyof ArcGeometry)[]).every((key) => first[key] === second[key]);
+}
+
+/**
+ * Builds path data of the arc. Arc, which spans the full circle, is drawn as a circle or a ring.
+ * Padding is applied as a gap of constant width along both radial edges, and corner radius is
+ * limited, so that the corners fit within the arc.
+ * @param arc - Geometry of the arc.
+ * @returns Path data, e.g. 'M0,-50A50,50,0,0,1,50,0L0,0Z'.
+ */
+export function arcPath(arc: ArcGeometry): string {
+  const commands: string[] = [];
+  const r0 = Math.max(0, Math.min(arc.innerRadius, arc.outerRadius));
+  const r1 = Math.max(0, arc.innerRadius, arc.outerRadius);
+
+  // Angles are converted to radians, where 0 points to the right, as used by the trigonometric functions
+  const a0 = toRadians(arc.startAngle) - Math.PI / 2;
+  const a1 = toRadians(arc.endAngle) - Math.PI / 2;
+  const da = Math.abs(a1 - a0);
+  const cw = a1 > a0;
+
+  const point = (x: number, y: number) => `${round(arc.cx + x)},${round(arc.cy + y)}`;
+  const moveTo = (x: number, y: number) => commands.push(`M${point(x, y)}`);
+  const lineTo = (x: number, y: number) => commands.push(`L${point(x, y)}`);
+  const arcTo = (x: number, y: number, r: number, from: number, to: number, ccw: boolean) => {
+    const sweep = (((ccw ? from - to : to - from) % TAU) + TAU) % TAU;
+    commands.push(`A${round(r)},${round(r)},0,${sweep > Math.PI ? 1 : 0},${ccw ? 0 : 1},${point(x + r * Math.cos(to), y + r * Math.sin(to))}`);
+  };
+
+  if (r1 <= EPSILON) {
+    // Let's draw a point in the center, so that the path is still valid
+    moveTo(0, 0);
+  } else if (da > TAU - EPSILON) {
+    // Circle or a ring is drawn as two halves, as a single arc can't end at its start. Hole is drawn in the opposite direction.
+    const half = cw ? Math.PI : -Math.PI;
+    moveTo(r1 * Math.cos(a0), r1 * Math.sin(a0));
+    arcTo(0, 0, r1, a0, a0 + half, !cw);
+    arcTo(0, 0, r1, a0 + half, a0, !cw);
+    if (r0 > EPSILON) {
+      commands.push('Z');
+      moveTo(r0 * Math.cos(a0), r0 * Math.sin(a0));
+      arcTo(0, 0, r0, a0, a0 - half, cw);
+      arcTo(0, 0, r0, a0 - half, a0, cw);
+    }
+  } else {
+    let a01 = a0;
+    let a11 = a1;
+    let a00 = a0;
+    let a10 = a1;
+    let da0 = da;
+    let da1 = da;
+
+    // Padding has the same width on both circles, so the inner circle loses larger angle
+    const ap = toRadians(Math.max(0, arc.padAngle)) / 2;
+    const rp = Math.sqrt(r0 * r0 + r1 * r1);
+    if (ap > EPSILON) {
+      const direction = cw ? 1 : -1;
+      const p0 = r0 > EPSILON ? Math.asin(Math.min(1, rp / r0 * Math.sin(ap))) : 0;
+      const p1 = Math.asin(Math.min(1, rp / r1 * Math.sin(ap)));
+      if ((da0 -= p0 * 2) > EPSILON) {
+        a00 += p0 * direction;
+        a10 -= p0 * direction;
+      } else {
+        da0 = 0;
+        a00 = a10 = (a0 + a1) / 2;
+      }
+      if ((da1 -= p1 * 2) > EPSILON) {
+        a01 += p1 * direction;
+        a11 -= p1 * direction;
+      } else {
+        da1 = 0;
+        a01 = a11 = (a0 + a1) / 2;
+      }
+    }
+
+    const x01 = r1 * Math.cos(a01);
+    const y01 = r1 * Math.sin(a01);
+    const x11 = r1 * Math.cos(a11);
+    const y11 = r1 * Math.sin(a11);
+    const x00 = r0 * Math.cos(a00);
+    const y00 = r0 * Math.sin(a00);
+    const x10 = r0 * Math.cos(a10);
+    const y10 = r0 * Math.sin(a10);
+
+    // Corners must fit between the circles, and between the edges of narrow arcs
+    const rc = Math.min((r1 - r0) / 2, Math.max(0, arc.cornerRadius));
+    const rc1 = Math.min(rc, fitCorner(r1, da1, 1));
+    const rc0 = Math.min(rc, fitCorner(r0, da0, -1));
+
+    // Outer side of the arc
+    if (da1 <= EPSILON) {
+      moveTo(x01, y01);
+    } else if (rc1 > EPSILON) {
+      const t0 = cornerTangents(x00, y00, x01, y01, r1, rc1, cw);
+      const t1 = cornerTangents(x11, y11, x10, y10, r1, rc1, cw);
+      moveTo(t0.cx + t0.x01, t0.cy + t0.y01);
+      if (rc1 < rc) {
+        // Corners meet, so the outer circle is not visible
+        arcTo(t0.cx, t0.cy, rc1, Math.atan2(t0.y01, t0.x01), Math.atan2(t1.y01, t1.x01), !cw);
+      } else {
+        arcTo(t0.cx, t0.cy, rc1, Math.atan2(t0.y01, t0.x01), Math.atan2(t0.y11, t0.x11), !cw);
+        arcTo(0, 0, r1, Math.atan2(t0.cy + t0.y11, t0.cx + t0.x11), Math.atan2(t1.cy + t1.y11, t1.cx + t1.x11), !cw);
+        arcTo(t1.cx, t1.cy, rc1, Math.atan2(t1.y11, t1.x11), Math.atan2(t1.y01, t1.x01), !cw);
+      }
+    } else {
+      moveTo(x01, y01);
+      arcTo(0, 0, r1, a01, a11, !cw);
+    }
+
+    // Inner side of the arc, which is drawn backwards
+    if (r0 <= EPSILON || da0 <= EPSILON) {
+      lineTo(x10, y10);
+    } else if (rc0 > EPSILON) {
+      const t0 = cornerTangents(x10, y10, x11, y11, r0, -rc0, cw);
+      const t1 = cornerTangents(x01, y01, x00, y00, r0, -rc0, cw);
+      lineTo(t0.cx + t0.x01, t0.cy + t0.y01);
+      if (rc0 < rc) {
+        arcTo(t0.cx, t0.cy, rc0, Math.atan2(t0.y01, t0.x01), Math.atan2(t1.y01, t1.x01), !cw);
+      } else {
+        arcTo(t0.cx, t0.cy, rc0, Math.atan2(t0.y01, t0.x01), Math.atan2(t0.y11, t0.x11), !cw);
+        arcTo(0, 0, r0, Math.atan2(t0.cy + t0.y11, t0.cx + t0.x11), Math.atan2(t1.cy + t1.y11, t1.cx + t1.x11), cw);
+        arcTo(t1.cx, t1.cy, rc0, Math.atan2(t1.y11, t1.x11), Math.atan2(t1.y01, t1.x01), !cw);
+      }
+    } else {
+      lineTo(x10, y10);
+      arcTo(0, 0, r0, a10, a00, cw);
+    }
+  }
+
+  return `${commands.join('')}Z`;
+}
+
+/**
+ * Converts degrees to radians.
+ * @param degrees - Angle in degrees.
+ * @returns Angle in radians.
+ */
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Rounds the value to 3 decimals, to keep path data short.
+ * @param value - Number, which should be rounded.
+ * @returns Rounded number.
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000 || 0;
+}
+
+/**
+ * Retrieves the largest corner radius, which fits between the edges of the arc.
+ * @param radius - Radius of the circle, on which the corners are drawn.
+ * @param angle - Angle between the edges in radians.
+ * @param side - 1 for the outer circle, where corner is inside of it, -1 for the inner circle.
+ * @returns Largest corner radius.
+ */
+function fitCorner(radius: number, angle: number, side: 1 | -1): number {
+  const sin = Math.sin(angle / 2);
+  if (angle >= Math.PI) {
+    return Infinity;
+  }
+  return radius * sin / (1 + side * sin);
+}
+
+/**
+ * Finds the corner circle, which touches the edge line and the circle of the arc.
+ * @param x0 - Start of the edge on x-axis, on the other circle.
+ * @param y0 - Start of the edge on y-axis, on the other circle.
+ * @param x1 - End of the edge on x-axis, on the rounded circle.
+ * @param y1 - End of the edge on y-axis, on the rounded circle.
+ * @param r1 - Radius of the rounded circle.
+ * @param rc - Radius of the corner, negative for the corners on the inner circle.
+ * @param cw - Indicator if the arc is drawn clockwise.
+ * @returns Center of the corner circle and the points, where it touches the edge and the circle.
+ */
+function cornerTangents(x0: number, y0: number, x1: number, y1: number, r1: number, rc: number, cw: boolean): CornerTangents {
+  const x01 = x0 - x1;
+  const y01 = y0 - y1;
+  const lo = (cw ? rc : -rc) / Math.sqrt(x01 * x01 + y01 * y01);
+  const ox = lo * y01;
+  const oy = -lo * x01;
+
+  // Edge, which is shifted by the corner radius, on which the center of the corner lies
+  const x11 = x0 + ox;
+  const y11 = y0 + oy;
+  const x10 = x1 + ox;
+  const y10 = y1 + oy;
+  const x00 = (x11 + x10) / 2;
+  const y00 = (y11 + y10) / 2;
+  const dx = x10 - x11;
+  const dy = y10 - y11;
+  const d2 = dx * dx + dy * dy;
+  const r = r1 - rc;
+  const D = x11 * y10 - x10 * y11;
+  const d = (dy < 0 ? -1 : 1) * Math.sqrt(Math.max(0, r * r * d2 - D * D));
+
+  // Shifted edge crosses the circle with the radius reduced by the corner in two points, the closer one is the center
+  let cx = (D * dy - dx * d) / d2;
+  let cy = (-D * dx - dy * d) / d2;
+  const cx1 = (D * dy + dx * d) / d2;
+  const cy1 = (-D * dx + dy * d) / d2;
+  if ((cx - x00) ** 2 + (cy - y00) ** 2 > (cx1 - x00) ** 2 + (cy1 - y00) ** 2) {
+    cx = cx1;
+    cy = cy1;
+  }
+
+  return { cx, cy, x01: -ox, y01: -oy, x11: cx * (r1 / r - 1), y11: cy * (r1 / r - 1) };
+}
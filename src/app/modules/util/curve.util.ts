@@ -0,0 +1,174 @@
+/**
+ * Import third-party libraries.
+ */
+import { ArrayXY } from '@svgdotjs/svg.js';
+
+/**
+ * Ways of interpolating the curve between its points.
+ */
+export type SvgCurveInterpolation = 'linear' | 'monotone' | 'catmull-rom' | 'basis' | 'step-before' | 'step-after';
+
+/**
+ * Builds path data of the curve, which goes through the points, or near them in case of basis interpolation.
+ * Catmull-Rom and basis curves are closed smoothly, other interpolations are closed with a straight line.
+ * @param points - List of the points in format [[x, y], [x1, y1], ..., [xn, yn]].
+ * @param interpolation - Way of interpolating the curve between the points.
+ * @param tension - Tension of the Catmull-Rom curve, 0 for the standard curve and 1 for straight lines.
+ * @param closed - Indicator if the end of the curve should be connected to its start.
+ * @returns Path data, or empty string if there are no points.
+ */
+export function curvePath(points: ArrayXY[], interpolation: SvgCurveInterpolation, tension: number, closed: boolean): string {
+  if (!points.length) {
+    return '';
+  }
+  const commands = [`M${point(points[0])}`];
+  switch (interpolation) {
+    case 'monotone':
+      commands.push(...monotoneCommands(points));
+      break;
+    case 'catmull-rom':
+      commands.push(...catmullRomCommands(points, tension, closed));
+      break;
+    case 'basis':
+      return basisPath(points, closed);
+    case 'step-before':
+    case 'step-after':
+      commands.push(...stepCommands(points, interpolation === 'step-before'));
+      break;
+    default:
+      commands.push(...points.slice(1).map((next) => `L${point(next)}`));
+  }
+  return closed ? `${commands.join('')}Z` : commands.join('');
+}
+
+/**
+ * Retrieves cubic segments of the curve, which keep monotonicity of the points on y-axis.
+ * Points are expected to be ordered on x-axis, e.g. values of a chart.
+ * @param points - List of the points.
+ * @returns Path commands after the starting point.
+ */
+function monotoneCommands(points: ArrayXY[]): string[] {
+  if (points.length < 3) {
+    return points.slice(1).map((next) => `L${point(next)}`);
+  }
+
+  // Tangents of the inner points are limited, so that the curve doesn't overshoot, ends are derived from their neighbours
+  const tangents = points.map((current, index) =>
+    index > 0 && index < points.length - 1 ? innerTangent(points[index - 1], current, points[index + 1]) : 0
+  );
+  tangents[0] = endTangent(points[0], points[1], tangents[1]);
+  tangents[points.length - 1] = endTangent(points[points.length - 2], points[points.length - 1], tangents[points.length - 2]);
+
+  return points.slice(1).map(([x1, y1], index) => {
+    const [x0, y0] = points[index];
+    const dx = (x1 - x0) / 3;
+    return `C${point([x0 + dx, y0 + dx * tangents[index]])},${point([x1 - dx, y1 - dx * tangents[index + 1]])},${point([x1, y1])}`;
+  });
+}
+
+/**
+ * Retrieves tangent of the monotone curve at the inner point.
+ * @param previous - Point before the current one.
+ * @param current - Point, at which tangent is calculated.
+ * @param next - Point after the current one.
+ * @returns Slope of the tangent, 0 at the local extremes.
+ */
+function innerTangent([x0, y0]: ArrayXY, [x1, y1]: ArrayXY, [x2, y2]: ArrayXY): number {
+  const h0 = x1 - x0;
+  const h1 = x2 - x1;
+  const s0 = (y1 - y0) / (h0 || (h1 < 0 ? -0 : 0));
+  const s1 = (y2 - y1) / (h1 || (h0 < 0 ? -0 : 0));
+  const p = (s0 * h1 + s1 * h0) / (h0 + h1);
+  return (Math.sign(s0) + Math.sign(s1)) * Math.min(Math.abs(s0), Math.abs(s1), 0.5 * Math.abs(p)) || 0;
+}
+
+/**
+ * Retrieves tangent of the monotone curve at the first or the last point.
+ * @param first - First point of the end segment.
+ * @param second - Second point of the end segment.
+ * @param tangent - Tangent at the other point of the end segment.
+ * @returns Slope of the tangent.
+ */
+function endTangent([x0, y0]: ArrayXY, [x1, y1]: ArrayXY, tangent: number): number {
+  const h = x1 - x0;
+  return h ? (3 * (y1 - y0) / h - tangent) / 2 : tangent;
+}
+
+/**
+ * Retrieves cubic segments of the Catmull-Rom curve, which goes through all the points.
+ * @param points - List of the points.
+ * @param tension - Tension of the curve, 0 for the standard curve and 1 for straight lines.
+ * @param closed - Indicator if the segment from the last point to the first one should be added.
+ * @returns Path commands after the starting point.
+ */
+function catmullRomCommands(points: ArrayXY[], tension: number, closed: boolean): string[] {
+  const count = points.length;
+  if (count < 3) {
+    return points.slice(1).map((next) => `L${point(next)}`);
+  }
+
+  // Neighbours of the ends are the ends themselves, unless the curve is closed
+  const at = (index: number): ArrayXY => closed ? points[(index + count) % count] : points[Math.min(Math.max(index, 0), count - 1)];
+  const k = (1 - tension) / 6;
+  const segments = closed ? count : count - 1;
+
+  return Array.from({ length: segments }, (_, index) => {
+    const [x0, y0] = at(index - 1);
+    const [x1, y1] = at(index);
+    const [x2, y2] = at(index + 1);
+    const [x3, y3] = at(index + 2);
+    return `C${point([x1 + (x2 - x0) * k, y1 + (y2 - y0) * k])},${point([x2 - (x3 - x1) * k, y2 - (y3 - y1) * k])},${point([x2, y2])}`;
+  });
+}
+
+/**
+ * Builds path data of the uniform B-spline, which is pulled towards the points, but goes only through its ends.
+ * @param points - List of the points.
+ * @param closed - Indicator if the curve should be closed smoothly through the first point.
+ * @returns Path data.
+ */
+function basisPath(points: ArrayXY[], closed: boolean): string {
+  const count = points.length;
+  const at = (index: number) => points[index % count];
+  const segment = ([ax, ay]: ArrayXY, [bx, by]: ArrayXY, [cx, cy]: ArrayXY) =>
+    `C${point([(2 * ax + bx) / 3, (2 * ay + by) / 3])},${point([(ax + 2 * bx) / 3, (ay + 2 * by) / 3])},` +
+    point([(ax + 4 * bx + cx) / 6, (ay + 4 * by + cy) / 6]);
+
+  if (count < 3) {
+    return `M${point(points[0])}${points.slice(1).map((next) => `L${point(next)}`).join('')}${closed ? 'Z' : ''}`;
+  }
+  if (closed) {
+    const [[xl, yl], [x0, y0], [x1, y1]] = [points[count - 1], points[0], points[1]];
+    const start = point([(xl + 4 * x0 + x1) / 6, (yl + 4 * y0 + y1) / 6]);
+    return `M${start}${points.map((_, index) => segment(at(index), at(index + 1), at(index + 2))).join('')}Z`;
+  }
+
+  // Open curve is clamped to its ends by the straight lines into the first and out of the last segment
+  const [[xf, yf], [xs, ys]] = points;
+  const last = points[count - 1];
+  const inner = points.slice(2).map((current, index) => segment(points[index], points[index + 1], current));
+  return `M${point(points[0])}L${point([(5 * xf + xs) / 6, (5 * yf + ys) / 6])}${inner.join('')}` +
+    `${segment(points[count - 2], last, last)}L${point(last)}`;
+}
+
+/**
+ * Retrieves segments of the step curve.
+ * @param points - List of the points.
+ * @param before - Indicator if the value changes before the next point on x-axis, otherwise at the next point.
+ * @returns Path commands after the starting point.
+ */
+function stepCommands(points: ArrayXY[], before: boolean): string[] {
+  return points.slice(1).map(([x1, y1], index) => {
+    const [x0, y0] = points[index];
+    return `L${point(before ? [x0, y1] : [x1, y0])}L${point([x1, y1])}`;
+  });
+}
+
+/**
+ * Formats the point for the path data, rounded to 3 decimals.
+ * @param point - Point in format [x, y].
+ * @returns Point in format 'x,y'.
+ */
+function point([x, y]: ArrayXY): string {
+  return `${Math.round(x * 1000) / 1000 || 0},${Math.round(y * 1000) / 1000 || 0}`;
+}
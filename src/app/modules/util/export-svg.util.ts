@@ -0,0 +1,126 @@
+/**
+ * List of style properties, which are inlined into the exported SVG elements.
+ */
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'fill-rule',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'opacity',
+  'visibility',
+  'display',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'text-anchor',
+  'text-decoration',
+  'letter-spacing'
+];
+
+/**
+ * Creates a standalone copy of the SVG element.
+ * @param svg - SVG element which needs to be copied.
+ * @param excluded - List of elements, which should not be part of the copy.
+ * @param inlineStyles - Indicator if computed styles of elements with classes should be inlined.
+ * @returns Standalone SVG element copy.
+ */
+export function cloneSvgElement(svg: SVGSVGElement, excluded: Element[], inlineStyles: boolean): SVGSVGElement {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const toRemove: Element[] = [];
+
+  // Let's walk through both trees in parallel, since clone has exactly the same structure
+  const walk = (original: Element, copy: Element) => {
+    if (excluded.includes(original)) {
+      toRemove.push(copy);
+      return;
+    }
+
+    // Let's inline styles, which come from CSS classes
+    if (inlineStyles && original.getAttribute('class')) {
+      const computed = getComputedStyle(original);
+      const style = INLINED_STYLE_PROPERTIES
+        .map((property) => `${ property }: ${ computed.getPropertyValue(property) };`)
+        .join(' ');
+      copy.setAttribute('style', `${ style } ${ copy.getAttribute('style') || '' }`.trim());
+    }
+
+    for (let i = 0; i < original.children.length; i++) {
+      walk(original.children[i], copy.children[i]);
+    }
+  };
+  walk(svg, clone);
+
+  // Let's remove excluded elements
+  toRemove.forEach((element) => element.remove());
+
+  // Let's make sure that the copy has absolute size
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute('width', `${ width }`);
+  clone.setAttribute('height', `${ height }`);
+
+  return clone;
+}
+
+/**
+ * Converts SVG markup to a data URL.
+ * @param markup - SVG markup.
+ * @returns Data URL containing the SVG markup.
+ */
+export function svgToDataUrl(markup: string): string {
+  return `data:image/svg+xml;charset=utf-8,${ encodeURIComponent(markup) }`;
+}
+
+/**
+ * Draws SVG markup on a canvas and converts it to an image blob.
+ * @param markup - SVG markup.
+ * @param width - Width of the SVG in pixels.
+ * @param height - Height of the SVG in pixels.
+ * @param type - Image mime type, e.g. image/png or image/jpeg.
+ * @param scale - Scale factor of the produced image.
+ * @param quality - Quality of the image between 0 and 1, used for lossy formats.
+ * @param background - Background color of the image. Transparent if not provided.
+ * @returns Promise which resolves with an image blob.
+ */
+export function rasterizeSvg(
+  markup: string,
+  width: number,
+  height: number,
+  type: string,
+  scale: number,
+  quality?: number,
+  background?: string
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      // Let's create a canvas with a scaled size
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Unable to create canvas context.'));
+        return;
+      }
+
+      // Let's fill background and draw the svg
+      if (background) {
+        context.fillStyle = background;
+        context.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Unable to rasterize SVG.')), type, quality);
+    };
+    image.onerror = () => reject(new Error('Unable to load SVG image.'));
+
+    image.src = svgToDataUrl(markup);
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Import third-party libraries.
+ */
+import { Element, create } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom models.
+ */
+import { SvgGlow, SvgShadow } from '../models';
+
+/**
+ * Attributes of the filter element, where null values are not set.
+ */
+export interface SvgFilterAttributes {
+  [attribute: string]: number | string | null;
+}
+
+/**
+ * Creates filter or filter primitive element, which svg.js has no dedicated class for.
+ * @param type - Tag name of the element, e.g. 'filter' or 'feGaussianBlur'.
+ * @param attributes - Attributes of the element.
+ * @returns Created element, which is not added to the document yet.
+ */
+export function createFilterElement(type: string, attributes: SvgFilterAttributes = {}): Element {
+  return new Element(create(type)).attr(attributes);
+}
+
+/**
+ * Draws primitives of the blur, glow and shadow presets into the filter.
+ * @param filter - Filter, which contents are replaced by the presets.
+ * @param blur - Standard deviation of the shape blur, or null if shape should not be blurred.
+ * @param shadow - Shadow of the shape, or null if shape has no shadow.
+ * @param glow - Glow of the shape, or null if shape has no glow.
+ */
+export function drawFilterPreset(filter: Element, blur: number | null, shadow: SvgShadow | null, glow: SvgGlow | null): void {
+  // Let's extend the filter region, so that blur, glow and shadow are not cut off at the shape bounds
+  filter.clear().attr({ x: '-50%', y: '-50%', width: '200%', height: '200%' });
+
+  if (blur) {
+    filter.add(createFilterElement('feGaussianBlur', { in: 'SourceGraphic', stdDeviation: blur, result: 'blur' }));
+  }
+  if (glow) {
+    // Outline of the shape is blurred and colored, and then merged under the shape
+    filter.add(createFilterElement('feGaussianBlur', { in: 'SourceAlpha', stdDeviation: glow.blur ?? 3, result: 'glow-alpha' }));
+    filter.add(createFilterElement('feFlood', { 'flood-color': glow.color ?? '#1e90ff', 'flood-opacity': glow.opacity ?? 0.8, result: 'glow-color' }));
+    filter.add(createFilterElement('feComposite', { in: 'glow-color', in2: 'glow-alpha', operator: 'in', result: 'glow' }));
+    filter.add(createFilterElement('feMerge', { result: 'glowing' })
+      .add(createFilterElement('feMergeNode', { in: 'glow' }))
+      .add(createFilterElement('feMergeNode', { in: blur ? 'blur' : 'SourceGraphic' })));
+  }
+  if (shadow) {
+    // Shadow is drawn from the result of the previous primitive, so that blurred shape has blurred shadow
+    filter.add(createFilterElement('feDropShadow', {
+      dx: shadow.dx ?? 2,
+      dy: shadow.dy ?? 2,
+      stdDeviation: shadow.blur ?? 2,
+      'flood-color': shadow.color ?? '#000',
+      'flood-opacity': shadow.opacity ?? 0.5
+    }));
+  }
+}
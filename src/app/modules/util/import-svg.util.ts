@@ -0,0 +1,229 @@
+/**
+ * Import third-party libraries.
+ */
+import { SVG, ArrayXY, Container, CoordinateXY, Element, Line, Matrix, Path, Polyline, Shape, Text } from '@svgdotjs/svg.js';
+
+/**
+ * Import custom models.
+ */
+import { SvgImportedShape, SvgShapeModel, SvgTransform } from '../models';
+
+/**
+ * Selector matching all elements, which can be represented by existing directives.
+ */
+const SHAPE_SELECTOR = 'rect, circle, ellipse, line, polyline, polygon, path, text, image';
+
+/**
+ * Selector matching elements, which content is not rendered directly, but is referenced by other elements.
+ */
+const DEFINITION_SELECTOR = 'defs, clipPath, mask, pattern, marker, symbol, linearGradient, radialGradient, filter';
+
+/**
+ * Parses SVG markup and adds all supported shapes to the container.
+ * Transforms of parent groups are kept on the created elements, so they look the same as in the markup.
+ * @param container - Container, which will hold the created elements.
+ * @param markup - SVG markup which needs to be imported.
+ * @param idPrefix - Prefix used for generated ids of elements, which do not have an id.
+ * @returns List of created elements with their models.
+ */
+export function importSvgShapes(container: Container, markup: string, idPrefix = 'svg-import-'): SvgImportedShape[] {
+  // Let's validate markup before adding anything to the container
+  const parsed = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  if (parsed.querySelector('parsererror') || parsed.documentElement.nodeName !== 'svg') {
+    throw new Error('Unable to import SVG, markup is not valid.');
+  }
+
+  // Let's rename ids, which are already used, e.g. by a previous import of the same markup, before adding anything to the document
+  renameUsedIds(container, parsed.documentElement);
+
+  // Let's add content to a temporary group, so that parent transforms can be resolved
+  const group = container.group();
+  for (const child of Array.from(parsed.documentElement.childNodes)) {
+    group.node.appendChild(document.importNode(child, true));
+  }
+
+  // Let's move definitions, so that references to gradients, patterns, etc. keep working. Nested ones move together with their parent.
+  const defs = container.root().defs();
+  for (const definition of group.find(DEFINITION_SELECTOR)) {
+    if (definition.node.parentElement?.closest(DEFINITION_SELECTOR)) {
+      continue;
+    }
+    if (definition.type === 'defs') {
+      definition.children().forEach((child: Element) => defs.add(child));
+    } else {
+      defs.add(definition);
+    }
+  }
+
+  const shapes = group
+    .find(SHAPE_SELECTOR)
+    .filter((element: Element) => !element.node.parentElement?.closest(DEFINITION_SELECTOR))
+    .map((element: Element, index: number) => {
+      const shape = element as Shape;
+
+      // Let's move element to the container, keeping its visual position
+      shape.toParent(container);
+      if (shape.matrix().equals(new Matrix())) {
+        shape.untransform();
+      }
+
+      // Let's make sure every element has a stable id, authored ids are already renamed if they were used
+      shape.id(shape.node.getAttribute('id') || uniqueId(container, `${ idPrefix }${ index }`));
+
+      return { model: { ...createShapeModel(shape), ...getTransformModel(shape) }, element: shape };
+    });
+
+  group.remove();
+
+  return shapes;
+}
+
+/**
+ * Parses SVG markup into declarative shape models, without adding anything to the page.
+ * @param markup - SVG markup which needs to be parsed.
+ * @param idPrefix - Prefix used for generated ids of elements, which do not have an id.
+ * @returns List of shape models.
+ */
+export function parseSvg(markup: string, idPrefix = 'svg-import-'): SvgShapeModel[] {
+  // Elements must be rendered to calculate their bounding boxes and computed styles
+  const sandbox = SVG().addTo(document.body).size(0, 0).css({ position: 'absolute', visibility: 'hidden' });
+
+  try {
+    return importSvgShapes(sandbox, markup, idPrefix).map(({ model }) => model);
+  } finally {
+    sandbox.remove();
+  }
+}
+
+/**
+ * Renames ids of the parsed markup, which are already used, and updates url(#id) and href="#id" references to them,
+ * so that imported elements keep referencing their own definitions.
+ * @param container - Container, which will hold the imported elements.
+ * @param markup - Root element of the parsed markup.
+ */
+function renameUsedIds(container: Container, markup: ParentNode): void {
+  const elements = Array.from(markup.querySelectorAll('[id]'));
+  const reserved = new Set(elements.map((element) => element.id));
+  const renamed = new Map<string, string>();
+
+  for (const element of elements) {
+    if (!isIdUsed(container, element.id)) {
+      continue;
+    }
+    const id = uniqueId(container, element.id, reserved);
+    reserved.add(id);
+    renamed.set(element.id, id);
+    element.id = id;
+  }
+  if (!renamed.size) {
+    return;
+  }
+
+  for (const element of Array.from(markup.querySelectorAll('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      const value = attribute.value.replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g, (reference, quote: string, id: string) =>
+        renamed.has(id) ? `url(#${ renamed.get(id) })` : reference
+      );
+      const href = attribute.localName === 'href' && value.startsWith('#') ? renamed.get(value.slice(1)) : undefined;
+      attribute.value = href ? `#${ href }` : value;
+    }
+  }
+}
+
+/**
+ * Retrieves id, which is not used within the document, nor the root of the container.
+ * @param container - Container, which holds the imported elements.
+ * @param id - Preferred id, which is suffixed with a number if it is already used.
+ * @param reserved - Ids, which are not used yet, but are taken by the imported markup.
+ * @returns Unused id.
+ */
+function uniqueId(container: Container, id: string, reserved: Set<string> = new Set()): string {
+  let candidate = id;
+  for (let suffix = 2; isIdUsed(container, candidate) || reserved.has(candidate); suffix++) {
+    candidate = `${ id }-${ suffix }`;
+  }
+  return candidate;
+}
+
+/**
+ * Checks if id is used within the document or the root of the container.
+ * @param container - Container, which holds the imported elements.
+ * @param id - Id, which needs to be checked.
+ * @returns Indicator if element with the id exists.
+ */
+function isIdUsed(container: Container, id: string): boolean {
+  return !!document.getElementById(id) || !!container.root().node.getElementById(id);
+}
+
+/**
+ * Retrieves transformation of the element, which includes transforms of its parent groups in the markup.
+ * Matrix is decomposed into the transform inputs of the directives around [0, 0], so the model is drawn the same as the element.
+ * @param shape - Element, which has been moved to the container.
+ * @returns Transform inputs together with their origin, or empty object if element is not transformed.
+ */
+function getTransformModel(shape: Shape): Partial<SvgTransform> & { origin?: CoordinateXY } {
+  const matrix = shape.matrix();
+  if (matrix.equals(new Matrix())) {
+    return {};
+  }
+  const { rotate = 0, scaleX = 1, scaleY = 1, shear = 0, translateX = 0, translateY = 0 } = matrix.decompose();
+
+  // Decomposed matrix is sheared only on x-axis, which is the same as skew on x-axis
+  return { rotate, scaleX, scaleY, skewX: Math.atan(shear) * 180 / Math.PI, skewY: 0, translateX, translateY, origin: [0, 0] };
+}
+
+/**
+ * Creates a declarative model from the rendered element.
+ * @param shape - Element which needs to be described.
+ * @returns Shape model matching inputs of the directive, without transformation.
+ */
+function createShapeModel(shape: Shape): SvgShapeModel {
+  const id = shape.id();
+  const classes = shape.classes();
+  const style = getComputedStyle(shape.node);
+  const fill = style.fill;
+  const borderColor = style.stroke;
+  const borderSize = parseFloat(style.strokeWidth) || 0;
+  const attr = (name: string) => Number(shape.attr(name)) || 0;
+
+  switch (shape.type) {
+    case 'rect':
+      return {
+        type: 'rect', id, classes, color: fill,
+        x: attr('x'), y: attr('y'), width: attr('width'), height: attr('height'), rx: attr('rx'), ry: attr('ry')
+      };
+    case 'circle':
+      return {
+        type: 'circle', id, classes, color: fill,
+        x: attr('cx') - attr('r'), y: attr('cy') - attr('r'), diameter: attr('r') * 2
+      };
+    case 'ellipse':
+      return {
+        type: 'ellipse', id, classes, color: fill,
+        x: attr('cx') - attr('rx'), y: attr('cy') - attr('ry'), width: attr('rx') * 2, height: attr('ry') * 2
+      };
+    case 'line': {
+      const [[x0, y0], [x1, y1]] = (shape as Line).array();
+      return { type: 'line', id, classes, borderColor, borderSize, x0, y0, x1, y1 };
+    }
+    case 'polyline':
+    case 'polygon': {
+      const points = Array.from((shape as Polyline).array(), ([x, y]): ArrayXY => [x, y]);
+      return { type: shape.type, id, classes, fill, borderColor, borderSize, points };
+    }
+    case 'path': {
+      const { x, y } = shape.bbox();
+      return { type: 'path', id, classes, fill, borderColor, borderSize, path: (shape as Path).attr('d'), x, y };
+    }
+    case 'text': {
+      const { x, y } = shape.bbox();
+      return { type: 'text', id, classes, color: fill, text: (shape as Text).text(), x, y, size: parseFloat(style.fontSize) || 0 };
+    }
+    default:
+      return {
+        type: 'image', id, classes,
+        imageUrl: shape.node.getAttribute('href') || shape.node.getAttributeNS('http://www.w3.org/1999/xlink', 'href') || '',
+        x: attr('x'), y: attr('y'), width: attr('width'), height: attr('height')
+      };
+  }
+}
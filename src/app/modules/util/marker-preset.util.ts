@@ -0,0 +1,67 @@
+/**
+ * Import third-party libraries.
+ */
+import { Marker } from '@svgdotjs/svg.js';
+
+/**
+ * Built-in marker shapes.
+ */
+export type SvgMarkerPreset = 'arrow' | 'open-arrow' | 'circle' | 'square' | 'diamond';
+
+/**
+ * Positions on a shape, where markers can be drawn.
+ */
+export type SvgMarkerPosition = 'start' | 'mid' | 'end';
+
+/**
+ * List of all the marker presets.
+ */
+export const MARKER_PRESETS: SvgMarkerPreset[] = ['arrow', 'open-arrow', 'circle', 'square', 'diamond'];
+
+/**
+ * Checks if the value is a name of the marker preset.
+ * @param value - Value of the marker input.
+ * @returns Indicator if value is a marker preset.
+ */
+export function isMarkerPreset(value: string | null): value is SvgMarkerPreset {
+  return MARKER_PRESETS.some((preset) => preset === value);
+}
+
+/**
+ * Draws the preset into the marker. Presets are drawn within a 10 by 10 viewbox,
+ * which is scaled to 4 times the stroke width of the shape.
+ * @param marker - Marker, which contents are replaced by the preset.
+ * @param preset - Preset which should be drawn.
+ * @param color - Color of the preset, usually the stroke color of the shape.
+ */
+export function drawMarkerPreset(marker: Marker, preset: SvgMarkerPreset, color: string): void {
+  marker
+    .attr({ viewBox: '0 0 10 10', markerWidth: 4, markerHeight: 4 })
+    .orient('auto-start-reverse')
+    .update((added: Marker) => {
+      switch (preset) {
+        case 'arrow':
+          added.path('M0,0 L10,5 L0,10 Z').fill(color);
+          break;
+        case 'open-arrow':
+          added.path('M1,1 L9,5 L1,9').fill('none').stroke({ color, width: 1.5, linecap: 'round', linejoin: 'round' });
+          break;
+        case 'circle':
+          added.circle(10).fill(color);
+          break;
+        case 'square':
+          added.rect(10, 10).fill(color);
+          break;
+        case 'diamond':
+          added.path('M5,0 L10,5 L5,10 L0,5 Z').fill(color);
+          break;
+      }
+    });
+
+  // Open arrow ends at its tip, while the filled shapes are centered on the vertex and cover the end of the stroke
+  if (preset === 'open-arrow') {
+    marker.ref(9, 5);
+  } else {
+    marker.ref(5, 5);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Import third-party libraries.
+ */
+import { Container } from '@svgdotjs/svg.js';
+
+/**
+ * Built-in contents of a pattern tile.
+ */
+export type SvgPatternPreset = 'grid' | 'dots' | 'hatch' | 'stripes';
+
+/**
+ * Draws contents of the preset into a single pattern tile.
+ * @param container - Container, to which preset elements are added, e.g. pattern or group within it.
+ * @param preset - Preset which should be drawn.
+ * @param width - Width of the pattern tile.
+ * @param height - Height of the pattern tile.
+ * @param color - Color of the preset lines or shapes.
+ * @param size - Stroke width of lines, diameter of dots or width of stripes, where null picks a size based on the tile.
+ */
+export function drawPatternPreset(
+  container: Container,
+  preset: SvgPatternPreset,
+  width: number,
+  height: number,
+  color: string,
+  size: number | null = null
+): void {
+  switch (preset) {
+    case 'grid':
+      container
+        .rect(width, height)
+        .fill('transparent')
+        .stroke({ color, width: size ?? 1 });
+      break;
+    case 'dots':
+      container
+        .circle(size ?? Math.min(width, height) / 2)
+        .center(width / 2, height / 2)
+        .fill(color);
+      break;
+    case 'hatch':
+      // Diagonal line is continued in the neighbouring corners, so that the lines are seamless between the tiles
+      container
+        .path([
+          `M0,${height} L${width},0`,
+          `M${-width / 2},${height / 2} L${width / 2},${-height / 2}`,
+          `M${width / 2},${height * 1.5} L${width * 1.5},${height / 2}`
+        ].join(' '))
+        .fill('none')
+        .stroke({ color, width: size ?? 1 });
+      break;
+    case 'stripes':
+      container
+        .rect(size ?? width / 2, height)
+        .fill(color);
+      break;
+  }
+}
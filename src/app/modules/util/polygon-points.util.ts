@@ -0,0 +1,58 @@
+/**
+ * Import third-party libraries.
+ */
+import { ArrayXY } from '@svgdotjs/svg.js';
+
+/**
+ * Retrieves vertices of the regular polygon. First vertex is at 12 o'clock, before the rotation is applied.
+ * @param cx - Center of the polygon on x-axis.
+ * @param cy - Center of the polygon on y-axis.
+ * @param radius - Distance from the center to the vertices.
+ * @param sides - Number of sides, at least 3.
+ * @param rotation - Clockwise rotation of the polygon in degrees.
+ * @returns List of the vertices in format [[x, y], [x1, y1], ..., [xn, yn]].
+ */
+export function regularPolygonPoints(cx: number, cy: number, radius: number, sides: number, rotation: number): ArrayXY[] {
+  const count = Math.max(3, Math.floor(sides));
+  return Array.from({ length: count }, (_, index) => vertex(cx, cy, radius, rotation + index * 360 / count));
+}
+
+/**
+ * Retrieves vertices of the star, which alternate between the outer and the inner radius.
+ * First outer vertex is at 12 o'clock, before the rotation is applied.
+ * @param cx - Center of the star on x-axis.
+ * @param cy - Center of the star on y-axis.
+ * @param innerRadius - Distance from the center to the inner vertices.
+ * @param outerRadius - Distance from the center to the tips of the star.
+ * @param points - Number of the tips, at least 2.
+ * @param rotation - Clockwise rotation of the star in degrees.
+ * @returns List of the vertices in format [[x, y], [x1, y1], ..., [xn, yn]].
+ */
+export function starPoints(cx: number, cy: number, innerRadius: number, outerRadius: number, points: number, rotation: number): ArrayXY[] {
+  const count = Math.max(2, Math.floor(points)) * 2;
+  return Array.from({ length: count }, (_, index) =>
+    vertex(cx, cy, index % 2 ? innerRadius : outerRadius, rotation + index * 360 / count)
+  );
+}
+
+/**
+ * Retrieves point on the circle.
+ * @param cx - Center of the circle on x-axis.
+ * @param cy - Center of the circle on y-axis.
+ * @param radius - Radius of the circle.
+ * @param angle - Angle in degrees, measured clockwise from 12 o'clock.
+ * @returns Point in format [x, y], rounded to 3 decimals.
+ */
+function vertex(cx: number, cy: number, radius: number, angle: number): ArrayXY {
+  const radians = angle * Math.PI / 180;
+  return [round(cx + radius * Math.sin(radians)), round(cy - radius * Math.cos(radians))];
+}
+
+/**
+ * Rounds the value to 3 decimals, to keep the points short.
+ * @param value - Number, which should be rounded.
+ * @returns Rounded number.
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000 || 0;
+}
@@ -0,0 +1,68 @@
+/**
+ * Character, which is added to the truncated lines.
+ */
+const ELLIPSIS = '…';
+
+/**
+ * Splits the text into lines. Text is split on the newlines and, in case maximum width is set,
+ * lines which don't fit are wrapped at the word boundaries.
+ * @param text - Text, which should be split into lines.
+ * @param measure - Function, which retrieves rendered width of the line.
+ * @param maxWidth - Maximum width of the line, or null if lines should not be wrapped.
+ * @param maxLines - Maximum number of lines, or null if number of lines is not limited.
+ * @param ellipsis - Indicator if lines which don't fit, should be truncated with ellipsis.
+ * @returns List of the lines.
+ */
+export function wrapText(
+  text: string,
+  measure: (line: string) => number,
+  maxWidth: number | null,
+  maxLines: number | null,
+  ellipsis: boolean
+): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach((paragraph) => {
+    if (maxWidth === null) {
+      lines.push(paragraph);
+      return;
+    }
+    // Let's add words to the line as long as it fits, words longer than the width are kept on their own line
+    const [first, ...words] = paragraph.split(' ');
+    const last = words.reduce((line, word) => {
+      if (measure(`${line} ${word}`) <= maxWidth) {
+        return `${line} ${word}`;
+      }
+      lines.push(line);
+      return word;
+    }, first);
+    lines.push(last);
+  });
+
+  const truncated = maxLines !== null && lines.length > maxLines;
+  const visible = truncated ? lines.slice(0, Math.max(maxLines ?? 0, 1)) : lines;
+  if (!ellipsis) {
+    return visible;
+  }
+  return visible.map((line, index) => {
+    const cut = truncated && index === visible.length - 1;
+    if (!cut && (maxWidth === null || measure(line) <= maxWidth)) {
+      return line;
+    }
+    return truncateLine(line, measure, maxWidth);
+  });
+}
+
+/**
+ * Removes characters from the end of the line, until the line together with ellipsis fits the maximum width.
+ * @param line - Line, which should be truncated.
+ * @param measure - Function, which retrieves rendered width of the line.
+ * @param maxWidth - Maximum width of the line, or null if ellipsis is only added.
+ * @returns Truncated line ending with ellipsis.
+ */
+function truncateLine(line: string, measure: (line: string) => number, maxWidth: number | null): string {
+  let value = line;
+  while (value && maxWidth !== null && measure(`${value}${ELLIPSIS}`) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return `${value.replace(/\s+$/, '')}${ELLIPSIS}`;
+}